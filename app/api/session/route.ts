@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, SESSION_COOKIE_MAX_AGE } from "@/lib/session-cookie";
+
+// Sets the httpOnly session cookie that middleware uses to guard routes.
+// The token itself is still validated by the backend on every API call.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+
+  if (typeof body.token !== "string" || !body.token) {
+    return NextResponse.json({ message: "Token is required" }, { status: 400 });
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE, body.token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_COOKIE_MAX_AGE,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
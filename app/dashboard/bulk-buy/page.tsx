@@ -0,0 +1,47 @@
+"use client";
+
+import { motion } from "framer-motion";
+import BulkBuyCalculator from "@/components/bulk-buy-calculator";
+import { useDashboard } from "../dashboard-context";
+
+export default function BulkBuyPage() {
+  const { storageLocations, myPantryItems } = useDashboard();
+
+  return (
+    <motion.div
+      key="bulkBuy"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              className="h-5 w-5 mr-2 text-green-600"
+            >
+              <path d="M3 3v18h18" />
+              <path d="M18 8a3 3 0 1 0 0-6 3 3 0 0 0 0 6z" />
+              <path d="M9 17a3 3 0 1 0 0-6 3 3 0 0 0 0 6z" />
+            </svg>
+            Bulk Buy Calculator
+          </h2>
+        </div>
+        <BulkBuyCalculator
+          storageLocations={storageLocations}
+          pantryItems={myPantryItems}
+        />
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,1037 @@
+"use client";
+
+import type React from "react";
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { api } from "@/lib/api";
+import { parseDashboard, parseList, productSchema } from "@/lib/schemas";
+import { buildProductQuery } from "@/lib/product-filters";
+import {
+  clearSession,
+  getActiveLocation,
+  setActiveLocation,
+} from "@/lib/session";
+import type { FinishedTrip, FinishStep } from "@/lib/shopping-trip";
+import { loadWasteLog, recordThrownOut, type WasteEntry } from "@/lib/expiry";
+import { applyPantryUpdate } from "@/lib/pantry";
+import {
+  recordPantryQuantities,
+  type QuantityHistory,
+} from "@/lib/pantry-forecast";
+import {
+  describePantryUpdate,
+  forgetPantryItems,
+  loadPantryHistory,
+  recordPantryChange,
+  type PantryHistory,
+} from "@/lib/pantry-history";
+import { isOpenAt } from "@/lib/store-hours";
+import type {
+  Budget,
+  DashboardDataType,
+  ListItemUpdate,
+  NewPantryItem,
+  NewPurchase,
+  PantryItemUpdate,
+  PantryItemWithTrends,
+  PriceTrendType,
+  ProductType,
+  ProfileUpdate,
+  Purchase,
+  SavedLocation,
+  StorageLocation,
+  StoreType,
+  UserType,
+} from "@/lib/types";
+
+type DashboardContextValue = {
+  user: UserType | null;
+  loading: boolean;
+  updateProfile: (changes: ProfileUpdate) => Promise<boolean>;
+  locations: SavedLocation[];
+  // null while the profile ZIP code is in use
+  activeLocation: SavedLocation | null;
+  activeZipCode: string;
+  switchLocation: (location: SavedLocation | null) => void;
+  addLocation: (name: string, zipCode: string) => Promise<boolean>;
+  removeLocation: (locationId: string) => Promise<void>;
+  dashboardData: DashboardDataType | null;
+  dataLoading: boolean;
+  error: string | null;
+  handleRetry: () => void;
+  // When the user plans to shop, or null to consider stores whenever open
+  shoppingTime: Date | null;
+  setShoppingTime: (time: Date | null) => void;
+  // Nearby stores open at shoppingTime; all of them when it isn't set
+  openStores: StoreType[];
+  myList: ProductType[];
+  isMyListLoading: boolean;
+  // Quantity defaults to one
+  addToList: (productId: string, quantity?: number) => Promise<void>;
+  removeFromList: (productId: string) => Promise<void>;
+  updateListItem: (
+    productId: string,
+    changes: ListItemUpdate
+  ) => Promise<boolean>;
+  priceTrends: PriceTrendType[];
+  isPriceTrendsLoading: boolean;
+  myPantryItems: ProductType[];
+  isMyPantryLoading: boolean;
+  myPantryTrends: PantryItemWithTrends[];
+  // Past pantry quantities, which run-out forecasts learn usage from
+  pantryQuantityHistory: QuantityHistory;
+  // What was used, restocked, moved or edited on each item
+  pantryHistory: PantryHistory;
+  // Expired stock recently removed from the pantry
+  wasteLog: WasteEntry[];
+  storageLocations: StorageLocation[];
+  addStorageLocation: (
+    name: string,
+    capacity: number | null
+  ) => Promise<boolean>;
+  removeStorageLocation: (locationId: string) => Promise<void>;
+  isMyPantryTrendsLoading: boolean;
+  addPantryItem: (item: NewPantryItem) => Promise<boolean>;
+  updatePantryItem: (
+    itemId: string,
+    changes: PantryItemUpdate
+  ) => Promise<boolean>;
+  movePantryItems: (
+    itemIds: string[],
+    locationId: string | null
+  ) => Promise<string[]>;
+  removePantryItems: (itemIds: string[]) => Promise<string[]>;
+  // Reports each step, and each item put in the pantry, as it's saved, so a
+  // retry after a failure can skip them
+  finishShoppingTrip: (
+    trip: FinishedTrip,
+    onStepSaved: (step: FinishStep) => void,
+    onItemsStocked: (productIds: string[]) => void
+  ) => Promise<boolean>;
+  purchases: Purchase[];
+  isPurchasesLoading: boolean;
+  logPurchases: (purchases: NewPurchase[]) => Promise<boolean>;
+  removePurchase: (purchaseId: string) => Promise<void>;
+  // Null until the user sets one
+  budget: Budget | null;
+  saveBudget: (budget: Budget) => Promise<boolean>;
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  isSearching: boolean;
+  searchResults: ProductType[];
+  // The query the current results are for, which may differ from the input
+  searchedQuery: string;
+  handleSearch: (e: React.FormEvent) => void;
+  runSearch: (query: string) => Promise<void>;
+};
+
+const DashboardContext = createContext<DashboardContextValue | null>(null);
+
+/**
+ * Session and data shared by every /dashboard route. Lives in the layout so
+ * moving between tabs doesn't refetch.
+ */
+export function DashboardProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [user, setUser] = useState<UserType | null>(null);
+  const [dashboardData, setDashboardData] = useState<DashboardDataType | null>(
+    null
+  );
+  const [loading, setLoading] = useState(true);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchResults, setSearchResults] = useState<ProductType[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState("");
+  const [myList, setMyList] = useState<ProductType[]>([]);
+  const [isMyListLoading, setIsMyListLoading] = useState(false);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [priceTrends, setPriceTrends] = useState<PriceTrendType[]>([]);
+  const [isPriceTrendsLoading, setIsPriceTrendsLoading] = useState(false);
+  const [myPantryItems, setMyPantryItems] = useState<ProductType[]>([]);
+  const [isMyPantryLoading, setIsMyPantryLoading] = useState(false);
+  const [myPantryTrends, setMyPantryTrends] = useState<PantryItemWithTrends[]>(
+    []
+  );
+  const [isMyPantryTrendsLoading, setIsMyPantryTrendsLoading] = useState(false);
+  const [pantryQuantityHistory, setPantryQuantityHistory] =
+    useState<QuantityHistory>({});
+  const [pantryHistory, setPantryHistory] = useState<PantryHistory>({});
+  const [wasteLog, setWasteLog] = useState<WasteEntry[]>([]);
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>(
+    []
+  );
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [isPurchasesLoading, setIsPurchasesLoading] = useState(false);
+  const [budget, setBudget] = useState<Budget | null>(null);
+  const [locations, setLocations] = useState<SavedLocation[]>([]);
+  const [activeLocation, setActiveLocationState] =
+    useState<SavedLocation | null>(null);
+  const [shoppingTime, setShoppingTime] = useState<Date | null>(null);
+
+  const openStores = useMemo(() => {
+    const stores = dashboardData?.stores ?? [];
+    return shoppingTime
+      ? stores.filter((store) => isOpenAt(store, shoppingTime))
+      : stores;
+  }, [dashboardData, shoppingTime]);
+
+  useEffect(() => {
+    // Check if user is logged in
+    const token = localStorage.getItem("token");
+    const userData = localStorage.getItem("user");
+
+    if (!token || !userData) {
+      // Drop any stale session cookie so middleware doesn't send us back here
+      clearSession().then(() => router.push("/login"));
+      return;
+    }
+
+    try {
+      const parsedUser: UserType = JSON.parse(userData);
+      setUser(parsedUser);
+      setLoading(false);
+
+      // The location this device last switched to, if any
+      const storedLocation = getActiveLocation(parsedUser._id);
+      setActiveLocationState(storedLocation);
+      const zipCode = storedLocation?.zipCode ?? parsedUser.zipCode;
+
+      // Check if dashboard data is already in localStorage
+      const cachedDashboardData = localStorage.getItem("dashboardData");
+      const cachedMyList = localStorage.getItem("myList");
+      const lastFetchTime = localStorage.getItem("lastFetchTime");
+      const currentTime = new Date().getTime();
+
+      // Check if cached data exists and is less than 1 hour old
+      const isCacheValid =
+        lastFetchTime && currentTime - Number.parseInt(lastFetchTime) < 3600000;
+      // Dashboard data is only reusable for the location it was fetched for
+      const isDashboardCacheValid =
+        isCacheValid && localStorage.getItem("dashboardZipCode") === zipCode;
+
+      if (cachedDashboardData && isDashboardCacheValid && !dataLoaded) {
+        try {
+          setDashboardData(parseDashboard(JSON.parse(cachedDashboardData)));
+          setDataLoaded(true);
+          setDataLoading(false);
+        } catch (e) {
+          console.error("Error parsing cached dashboard data:", e);
+          // If parsing fails, fetch fresh data
+          fetchDashboardData(zipCode);
+        }
+      } else if (!dataLoaded) {
+        // Only fetch if data hasn't been loaded yet
+        fetchDashboardData(zipCode);
+      }
+
+      if (cachedMyList && isCacheValid && !isMyListLoading) {
+        try {
+          setMyList(
+            parseList(productSchema, JSON.parse(cachedMyList), "list items")
+          );
+        } catch (e) {
+          console.error("Error parsing cached list data:", e);
+          // If parsing fails, fetch fresh data
+          fetchMyList();
+        }
+      } else if (!isMyListLoading) {
+        // Only fetch if list hasn't been loaded yet
+        fetchMyList();
+      }
+
+      // Fetch price trends for dashboard
+      fetchPriceTrends(zipCode);
+
+      fetchLocations(parsedUser);
+
+      // Fetch my pantry items
+      fetchMyPantryItems(parsedUser);
+
+      // Fetch my pantry trends
+      fetchMyPantryTrends();
+
+      fetchStorageLocations();
+
+      fetchPurchases();
+
+      fetchBudget();
+    } catch (error) {
+      console.error("Error parsing user data:", error);
+      clearSession().then(() => router.push("/login"));
+    }
+    // Not on dataLoaded: it flips when the dashboard arrives, and every
+    // fetch above would run again
+  }, [router, retryCount]);
+
+  const fetchDashboardData = async (zipCode: string) => {
+    try {
+      setDataLoading(true);
+      setError(null);
+
+      console.log("Fetching dashboard data...");
+      const data = await api.getDashboard(zipCode);
+      console.log("Dashboard data received:", data);
+
+      setDashboardData(data);
+      setDataLoaded(true);
+
+      // Cache the dashboard data in localStorage with timestamp
+      localStorage.setItem("dashboardData", JSON.stringify(data));
+      localStorage.setItem("dashboardZipCode", zipCode);
+      localStorage.setItem("lastFetchTime", new Date().getTime().toString());
+    } catch (error) {
+      console.error("Error fetching dashboard data:", error);
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to load dashboard data. Please try again later."
+      );
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const fetchMyList = async () => {
+    try {
+      setIsMyListLoading(true);
+
+      const items = await api.getMyList();
+      setMyList(items);
+
+      // Cache the list data in localStorage
+      localStorage.setItem("myList", JSON.stringify(items));
+    } catch (error) {
+      console.error("Error fetching my list:", error);
+      toast.error("Failed to load your list");
+    } finally {
+      setIsMyListLoading(false);
+    }
+  };
+
+  const fetchPriceTrends = async (zipCode: string) => {
+    try {
+      setIsPriceTrendsLoading(true);
+      setPriceTrends(await api.getPriceTrends(zipCode));
+    } catch (error) {
+      console.error("Error fetching price trends:", error);
+      // Don't show error toast for this one, as it's not critical
+    } finally {
+      setIsPriceTrendsLoading(false);
+    }
+  };
+
+  const fetchPurchases = async () => {
+    try {
+      setIsPurchasesLoading(true);
+      setPurchases(await api.getPurchases());
+    } catch (error) {
+      console.error("Error fetching purchases:", error);
+    } finally {
+      setIsPurchasesLoading(false);
+    }
+  };
+
+  const fetchBudget = async () => {
+    try {
+      setBudget(await api.getBudget());
+    } catch (error) {
+      console.error("Error fetching budget:", error);
+    }
+  };
+
+  const fetchMyPantryItems = async (owner: UserType | null = user) => {
+    try {
+      setIsMyPantryLoading(true);
+      const items = await api.getMyPantryItems();
+      setMyPantryItems(items);
+      if (owner) {
+        setPantryQuantityHistory(recordPantryQuantities(owner._id, items));
+        setPantryHistory(loadPantryHistory(owner._id));
+        setWasteLog(loadWasteLog(owner._id));
+      }
+    } catch (error) {
+      console.error("Error fetching my pantry items:", error);
+      // Don't show error toast for this one, as it's not critical
+    } finally {
+      setIsMyPantryLoading(false);
+    }
+  };
+
+  const fetchStorageLocations = async () => {
+    try {
+      setStorageLocations(await api.getStorageLocations());
+    } catch (error) {
+      console.error("Error fetching storage locations:", error);
+    }
+  };
+
+  const fetchMyPantryTrends = async () => {
+    try {
+      setIsMyPantryTrendsLoading(true);
+      setMyPantryTrends(await api.getMyPantryTrends());
+    } catch (error) {
+      console.error("Error fetching my pantry trends:", error);
+      // Don't show error toast for this one, as it's not critical
+    } finally {
+      setIsMyPantryTrendsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const query = searchQuery.trim();
+    if (!query) {
+      return;
+    }
+
+    // Blur the input that was submitted so the mobile keyboard closes
+    const activeElement = document.activeElement;
+    if (activeElement instanceof HTMLInputElement) {
+      activeElement.blur();
+    }
+
+    // The search page runs the search from the URL, so results survive a
+    // refresh and can be shared
+    router.push(`/dashboard/search${buildProductQuery({ q: query })}`);
+  };
+
+  const runSearch = async (query: string) => {
+    try {
+      setIsSearching(true);
+      setSearchedQuery(query);
+      setSearchResults([]);
+
+      if (!localStorage.getItem("token")) {
+        router.push("/login");
+        return;
+      }
+
+      setSearchResults(await api.searchProducts(query));
+    } catch (error) {
+      console.error("Search error:", error);
+      toast.error("Search failed. Please try again.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const addToList = async (productId: string, quantity?: number) => {
+    try {
+      if (!localStorage.getItem("token")) {
+        router.push("/login");
+        return;
+      }
+
+      await api.addToList(productId, quantity);
+
+      // Refresh the list
+      fetchMyList();
+
+      toast.success("Added to your list!");
+    } catch (error) {
+      console.error("Error adding to list:", error);
+      toast.error("Failed to add item to your list");
+    }
+  };
+
+  const removeFromList = async (productId: string) => {
+    try {
+      if (!localStorage.getItem("token")) {
+        router.push("/login");
+        return;
+      }
+
+      await api.removeFromList(productId);
+
+      // Update the local list by filtering out the removed item
+      const updatedList = myList.filter((item) => item.id !== productId);
+      setMyList(updatedList);
+
+      // Update the cached list
+      localStorage.setItem("myList", JSON.stringify(updatedList));
+
+      toast.success("Item removed from your list!");
+    } catch (error) {
+      console.error("Error removing from list:", error);
+      toast.error("Failed to remove item from your list");
+    }
+  };
+
+  // Keeps the localStorage copy of the list in step with state
+  const updateCachedList = (
+    update: (items: ProductType[]) => ProductType[]
+  ) => {
+    setMyList((prev) => {
+      const next = update(prev);
+      localStorage.setItem("myList", JSON.stringify(next));
+      return next;
+    });
+  };
+
+  /**
+   * Applies the change straight away and puts the old values back if the
+   * backend rejects it. Resolves to true when it was saved.
+   */
+  const updateListItem = async (productId: string, changes: ListItemUpdate) => {
+    const item = myList.find((entry) => entry.id === productId);
+    if (!item) return false;
+
+    const previous: ListItemUpdate = {};
+    if ("quantity" in changes) previous.quantity = item.quantity;
+    if ("notes" in changes) previous.notes = item.notes;
+    if ("preferredStore" in changes) {
+      previous.preferredStore = item.preferredStore;
+    }
+
+    const applyToItem = (fields: ListItemUpdate) =>
+      updateCachedList((items) =>
+        items.map((entry) =>
+          entry.id === productId ? { ...entry, ...fields } : entry
+        )
+      );
+
+    applyToItem(changes);
+    try {
+      await api.updateListItem(productId, changes);
+      return true;
+    } catch (error) {
+      console.error("Error updating list item:", error);
+      applyToItem(previous);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update the item on your list"
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Resolves to true when the item was saved, so the caller can close its form
+   */
+  const addPantryItem = async (item: NewPantryItem) => {
+    try {
+      if (!localStorage.getItem("token")) {
+        router.push("/login");
+        return false;
+      }
+
+      console.log("Adding pantry item:", item);
+      await api.addPantryItem(item);
+
+      // Refresh pantry items
+      fetchMyPantryItems();
+      fetchMyPantryTrends();
+
+      toast.success("Item added to your pantry!");
+      return true;
+    } catch (error) {
+      console.error("Error adding to pantry:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to add item to your pantry"
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Resolves to true when the change was saved, which is then added to the
+   * item's history. Waits for the pantry to be refetched, so a caller
+   * building on the item's values (like a quantity step) sees the new ones.
+   * Quiet on success, since callers report the change in their own way.
+   */
+  const updatePantryItem = async (
+    itemId: string,
+    changes: PantryItemUpdate
+  ) => {
+    const item = myPantryItems.find((entry) => entry.id === itemId);
+    const change =
+      item && describePantryUpdate(item, changes, storageLocations);
+    try {
+      await api.updatePantryItem(itemId, changes);
+      if (user && change) {
+        setPantryHistory(recordPantryChange(user._id, itemId, change));
+      }
+      setMyPantryItems((prev) =>
+        prev.map((entry) =>
+          entry.id === itemId ? applyPantryUpdate(entry, changes) : entry
+        )
+      );
+      fetchMyPantryTrends();
+      await fetchMyPantryItems();
+      return true;
+    } catch (error) {
+      console.error("Error updating pantry item:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update the item in your pantry"
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Save profile changes and refresh the cached user. Dashboard data depends
+   * on the ZIP code, so it is fetched again when that changes. Resolves to
+   * true when the changes were saved.
+   */
+  const updateProfile = async (changes: ProfileUpdate) => {
+    try {
+      const updatedUser = await api.updateProfile(changes);
+      const zipChanged = updatedUser.zipCode !== user?.zipCode;
+
+      setUser(updatedUser);
+      localStorage.setItem("user", JSON.stringify(updatedUser));
+
+      // A saved location overrides the profile ZIP, so only refetch when
+      // the profile ZIP is the one in use
+      if (zipChanged && !activeLocation) {
+        fetchDashboardData(updatedUser.zipCode);
+        fetchPriceTrends(updatedUser.zipCode);
+      }
+
+      toast.success("Your settings have been saved");
+      return true;
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update your profile"
+      );
+      return false;
+    }
+  };
+
+  const fetchLocations = async (owner: UserType) => {
+    try {
+      const saved = await api.getLocations();
+      setLocations(saved);
+
+      // Keep the stored copy in step with renames, and fall back to the
+      // profile ZIP if the active location was deleted on another device
+      const stored = getActiveLocation(owner._id);
+      if (stored) {
+        const current = saved.find((location) => location.id === stored.id);
+        if (!current || current.zipCode !== stored.zipCode) {
+          applyLocation(owner, current ?? null);
+        } else {
+          setActiveLocation(owner._id, current);
+          setActiveLocationState(current);
+        }
+      }
+    } catch (error) {
+      console.error("Error fetching saved locations:", error);
+      // Don't show error toast for this one, as it's not critical
+    }
+  };
+
+  const applyLocation = (owner: UserType, location: SavedLocation | null) => {
+    setActiveLocation(owner._id, location);
+    setActiveLocationState(location);
+
+    const zipCode = location?.zipCode ?? owner.zipCode;
+    fetchDashboardData(zipCode);
+    fetchPriceTrends(zipCode);
+  };
+
+  /**
+   * Make a saved location (or the profile ZIP, for null) the one this device
+   * shows, and reload stores and prices for it
+   */
+  const switchLocation = (location: SavedLocation | null) => {
+    if (user) {
+      applyLocation(user, location);
+    }
+  };
+
+  /**
+   * Resolves to true when the location was saved
+   */
+  const addLocation = async (name: string, zipCode: string) => {
+    try {
+      const location = await api.addLocation({ name, zipCode });
+      setLocations((prev) => [...prev, location]);
+      toast.success(`Saved "${location.name}"`);
+      return true;
+    } catch (error) {
+      console.error("Error saving location:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save location"
+      );
+      return false;
+    }
+  };
+
+  const removeLocation = async (locationId: string) => {
+    try {
+      await api.deleteLocation(locationId);
+      setLocations((prev) =>
+        prev.filter((location) => location.id !== locationId)
+      );
+
+      if (activeLocation?.id === locationId) {
+        switchLocation(null);
+      }
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete location"
+      );
+    }
+  };
+
+  /**
+   * Resolves to true when the location was saved
+   */
+  const addStorageLocation = async (name: string, capacity: number | null) => {
+    try {
+      const location = await api.addStorageLocation({ name, capacity });
+      setStorageLocations((prev) => [...prev, location]);
+      return true;
+    } catch (error) {
+      console.error("Error saving storage location:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to save storage location"
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Move several items at once, reporting how many moved. Resolves to the
+   * ids of the items that couldn't be moved.
+   */
+  const movePantryItems = async (
+    itemIds: string[],
+    locationId: string | null
+  ) => {
+    const changes: PantryItemUpdate = { storageLocationId: locationId };
+    const results = await Promise.allSettled(
+      itemIds.map((itemId) => api.updatePantryItem(itemId, changes))
+    );
+    const moved = itemIds.filter(
+      (_, index) => results[index].status === "fulfilled"
+    );
+    const failed = itemIds.filter((itemId) => !moved.includes(itemId));
+
+    for (const itemId of moved) {
+      const item = myPantryItems.find((entry) => entry.id === itemId);
+      const change =
+        item && describePantryUpdate(item, changes, storageLocations);
+      if (user && change) {
+        setPantryHistory(recordPantryChange(user._id, itemId, change));
+      }
+    }
+    setMyPantryItems((prev) =>
+      prev.map((entry) =>
+        moved.includes(entry.id) ? applyPantryUpdate(entry, changes) : entry
+      )
+    );
+
+    reportBulkResult(results, moved.length, "moved");
+    fetchMyPantryItems();
+    return failed;
+  };
+
+  /**
+   * Resolves to the ids of the items that couldn't be removed. Expired stock
+   * that was removed is logged as waste.
+   */
+  const removePantryItems = async (itemIds: string[]) => {
+    const results = await Promise.allSettled(
+      itemIds.map((itemId) => api.deletePantryItem(itemId))
+    );
+    const removed = itemIds.filter(
+      (_, index) => results[index].status === "fulfilled"
+    );
+    if (user && removed.length > 0) {
+      setPantryHistory(forgetPantryItems(user._id, removed));
+      setWasteLog(
+        recordThrownOut(
+          user._id,
+          myPantryItems.filter((item) => removed.includes(item.id)),
+          purchases
+        )
+      );
+    }
+
+    reportBulkResult(results, removed.length, "removed");
+    fetchMyPantryItems();
+    fetchMyPantryTrends();
+    return itemIds.filter((itemId) => !removed.includes(itemId));
+  };
+
+  // One toast for a bulk pantry change: how many items it applied to, and
+  // the first error when some failed
+  const reportBulkResult = (
+    results: PromiseSettledResult<unknown>[],
+    succeeded: number,
+    verb: string
+  ) => {
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (!failure) {
+      toast.success(
+        succeeded === 1 ? `1 item ${verb}` : `${succeeded} items ${verb}`
+      );
+      return;
+    }
+
+    console.error(`Error with pantry items (${verb}):`, failure.reason);
+    const message =
+      failure.reason instanceof Error
+        ? failure.reason.message
+        : "Failed to update your pantry";
+    toast.error(
+      succeeded > 0
+        ? `${succeeded} of ${results.length} items ${verb}. ${message}`
+        : message
+    );
+  };
+
+  const removeStorageLocation = async (locationId: string) => {
+    try {
+      await api.deleteStorageLocation(locationId);
+      setStorageLocations((prev) =>
+        prev.filter((location) => location.id !== locationId)
+      );
+      // Items that were in it are now unassigned
+      fetchMyPantryItems();
+    } catch (error) {
+      console.error("Error deleting storage location:", error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to delete storage location"
+      );
+    }
+  };
+
+  /**
+   * Log what was bought and put it away. Resolves to true when everything
+   * was saved.
+   */
+  const finishShoppingTrip = async (
+    { purchases, pantryStock, removeFromList, savedSteps }: FinishedTrip,
+    onStepSaved: (step: FinishStep) => void,
+    onItemsStocked: (productIds: string[]) => void
+  ) => {
+    try {
+      if (!savedSteps.includes("purchases")) {
+        // Nothing to log when none of the items has a price
+        if (purchases.length > 0) {
+          await api.addPurchases(purchases);
+          fetchPurchases();
+        }
+        onStepSaved("purchases");
+      }
+
+      if (pantryStock.length > 0 && !savedSteps.includes("pantry")) {
+        const results = await Promise.allSettled(
+          pantryStock.map((stock) =>
+            "item" in stock
+              ? api.addPantryItem(stock.item)
+              : api.updatePantryItem(stock.pantryItemId, {
+                  quantity: stock.quantity,
+                })
+          )
+        );
+        const stocked = pantryStock.filter(
+          (_, index) => results[index].status === "fulfilled"
+        );
+
+        for (const stock of stocked) {
+          if (!("pantryItemId" in stock)) continue;
+          const item = myPantryItems.find(
+            (entry) => entry.id === stock.pantryItemId
+          );
+          const change =
+            item &&
+            describePantryUpdate(
+              item,
+              { quantity: stock.quantity },
+              storageLocations
+            );
+          if (user && change) {
+            setPantryHistory(
+              recordPantryChange(user._id, stock.pantryItemId, change)
+            );
+          }
+        }
+        if (stocked.length > 0) {
+          onItemsStocked(stocked.flatMap((stock) => stock.productIds));
+          fetchMyPantryItems();
+          fetchMyPantryTrends();
+        }
+
+        // The rest are sent again on a retry
+        const failure = results.find(
+          (result): result is PromiseRejectedResult =>
+            result.status === "rejected"
+        );
+        if (failure) throw failure.reason;
+        onStepSaved("pantry");
+      }
+
+      if (removeFromList.length > 0 && !savedSteps.includes("list")) {
+        await Promise.all(removeFromList.map((id) => api.removeFromList(id)));
+        onStepSaved("list");
+        updateCachedList((items) =>
+          items.filter((item) => !removeFromList.includes(item.id))
+        );
+      }
+
+      toast.success(
+        savedSteps.includes("purchases") || purchases.length === 0
+          ? "Trip finished"
+          : `Logged ${purchases.length} ${purchases.length === 1 ? "purchase" : "purchases"}`
+      );
+      return true;
+    } catch (error) {
+      console.error("Error finishing shopping trip:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to finish your trip"
+      );
+      return false;
+    }
+  };
+
+  /**
+   * Resolves to true when the purchases were saved
+   */
+  const logPurchases = async (newPurchases: NewPurchase[]) => {
+    try {
+      await api.addPurchases(newPurchases);
+      fetchPurchases();
+      toast.success(
+        newPurchases.length === 1
+          ? "Purchase logged"
+          : `Logged ${newPurchases.length} purchases`
+      );
+      return true;
+    } catch (error) {
+      console.error("Error logging purchases:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save your purchases"
+      );
+      return false;
+    }
+  };
+
+  const removePurchase = async (purchaseId: string) => {
+    try {
+      await api.deletePurchase(purchaseId);
+      setPurchases((prev) =>
+        prev.filter((purchase) => purchase.id !== purchaseId)
+      );
+    } catch (error) {
+      console.error("Error deleting purchase:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete purchase"
+      );
+    }
+  };
+
+  /**
+   * Resolves to true when the budget was saved
+   */
+  const saveBudget = async (changes: Budget) => {
+    try {
+      setBudget(await api.saveBudget(changes));
+      toast.success("Budget saved");
+      return true;
+    } catch (error) {
+      console.error("Error saving budget:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save budget"
+      );
+      return false;
+    }
+  };
+
+  const handleRetry = () => {
+    setRetryCount((prev) => prev + 1);
+  };
+
+  return (
+    <DashboardContext.Provider
+      value={{
+        user,
+        loading,
+        updateProfile,
+        locations,
+        activeLocation,
+        activeZipCode: activeLocation?.zipCode ?? user?.zipCode ?? "",
+        switchLocation,
+        addLocation,
+        removeLocation,
+        dashboardData,
+        dataLoading,
+        error,
+        handleRetry,
+        shoppingTime,
+        setShoppingTime,
+        openStores,
+        myList,
+        isMyListLoading,
+        addToList,
+        removeFromList,
+        updateListItem,
+        priceTrends,
+        isPriceTrendsLoading,
+        myPantryItems,
+        isMyPantryLoading,
+        myPantryTrends,
+        isMyPantryTrendsLoading,
+        pantryQuantityHistory,
+        pantryHistory,
+        wasteLog,
+        storageLocations,
+        addStorageLocation,
+        removeStorageLocation,
+        addPantryItem,
+        updatePantryItem,
+        movePantryItems,
+        removePantryItems,
+        finishShoppingTrip,
+        purchases,
+        isPurchasesLoading,
+        logPurchases,
+        removePurchase,
+        budget,
+        saveBudget,
+        searchQuery,
+        setSearchQuery,
+        isSearching,
+        searchResults,
+        searchedQuery,
+        handleSearch,
+        runSearch,
+      }}
+    >
+      {children}
+    </DashboardContext.Provider>
+  );
+}
+
+/**
+ * Read the shared dashboard state. Only valid below DashboardProvider.
+ */
+export function useDashboard() {
+  const context = useContext(DashboardContext);
+  if (!context) {
+    throw new Error("useDashboard must be used within a DashboardProvider");
+  }
+  return context;
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import {
+  Calendar,
+  ChevronDown,
+  LogOut,
+  Menu,
+  Search,
+  Settings,
+  User,
+} from "lucide-react";
+import LocationSwitcher from "@/components/location-switcher";
+import SettingsDrawer from "@/components/settings-drawer";
+import { buildProductQuery } from "@/lib/product-filters";
+import { clearSession } from "@/lib/session";
+import { DashboardProvider, useDashboard } from "./dashboard-context";
+
+const NAV_ITEMS = [
+  { href: "/dashboard", label: "Dashboard" },
+  { href: "/dashboard/my-list", label: "My List" },
+  { href: "/dashboard/search", label: "Search Results" },
+  { href: "/dashboard/recipes", label: "My Recipes" },
+  { href: "/dashboard/bulk-buy", label: "Bulk Buy Calculator" },
+  { href: "/dashboard/my-pantry", label: "My Pantry" },
+  { href: "/dashboard/purchases", label: "Purchases" },
+];
+
+function DashboardShell({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const {
+    user,
+    loading,
+    updateProfile,
+    locations,
+    activeLocation,
+    switchLocation,
+    addLocation,
+    removeLocation,
+    searchQuery,
+    setSearchQuery,
+    isSearching,
+    searchedQuery,
+    handleSearch,
+  } = useDashboard();
+  const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const handleLogout = async () => {
+    await clearSession();
+    router.push("/login");
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen w-screen items-center justify-center bg-white">
+        <div className="text-center">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+          <p className="mt-4">Loading your dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const locationSwitcherProps = {
+    locations,
+    activeLocation,
+    profileZipCode: user.zipCode,
+    onSwitch: switchLocation,
+    onAdd: addLocation,
+    onRemove: removeLocation,
+  };
+
+  // Only offer the search tab once there is something to show on it
+  const navItems = NAV_ITEMS.filter(
+    (item) =>
+      item.href !== "/dashboard/search" ||
+      searchedQuery ||
+      pathname === item.href
+  );
+
+  // Going back to the search tab shows the last search rather than an empty one
+  const linkFor = (href: string) =>
+    href === "/dashboard/search"
+      ? `${href}${buildProductQuery({ q: searchedQuery })}`
+      : href;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16 items-center">
+            <div className="flex items-center">
+              <button
+                type="button"
+                className="md:hidden p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100"
+                onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+              >
+                <Menu className="h-6 w-6" />
+              </button>
+              <div className="flex-shrink-0 flex items-center">
+                <span className="text-xl font-semibold">🥕 Pantry Tracker</span>
+              </div>
+            </div>
+
+            {/* Search Bar */}
+            <div className="hidden md:flex flex-1 max-w-xl mx-8">
+              <form onSubmit={handleSearch} className="w-full">
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Search className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    type="text"
+                    className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                    placeholder="Search for products..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                  />
+                  {isSearching && (
+                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-green-600 border-r-transparent"></div>
+                    </div>
+                  )}
+                </div>
+              </form>
+            </div>
+
+            <div className="hidden md:flex items-center space-x-4">
+              <LocationSwitcher {...locationSwitcherProps} />
+              <div className="text-sm text-gray-500">
+                <Calendar className="inline-block mr-2 h-4 w-4" />
+                {new Date().toLocaleDateString("en-US", {
+                  weekday: "long",
+                  month: "short",
+                  day: "numeric",
+                })}
+              </div>
+              <div className="relative">
+                <button
+                  type="button"
+                  className="flex items-center space-x-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+                >
+                  <User className="h-5 w-5" />
+                  <span>{user.fullName}</span>
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+              </div>
+              <button
+                onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+                className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100"
+              >
+                <Settings className="h-5 w-5" />
+              </button>
+              <button
+                onClick={handleLogout}
+                className="ml-2 px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                <LogOut className="h-4 w-4 inline-block mr-1" />
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Mobile search bar */}
+      <div className="md:hidden p-4 bg-white border-b">
+        <div className="mb-3">
+          <LocationSwitcher {...locationSwitcherProps} align="left" />
+        </div>
+        <form onSubmit={handleSearch}>
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search className="h-5 w-5 text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-green-500 focus:border-green-500 sm:text-sm"
+              placeholder="Search for products..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+            {isSearching && (
+              <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-solid border-green-600 border-r-transparent"></div>
+              </div>
+            )}
+          </div>
+        </form>
+      </div>
+
+      {/* Mobile menu */}
+      {isMobileMenuOpen && (
+        <div className="md:hidden bg-white border-b">
+          <div className="px-2 pt-2 pb-3 space-y-1">
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={linkFor(item.href)}
+                onClick={() => setIsMobileMenuOpen(false)}
+                className={`w-full text-left block px-3 py-2 rounded-md text-base font-medium ${
+                  pathname === item.href
+                    ? "text-gray-900 bg-gray-50"
+                    : "text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {item.label}
+              </Link>
+            ))}
+            <button
+              onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+              className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Settings
+            </button>
+            <button
+              onClick={handleLogout}
+              className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-red-600 hover:bg-gray-50"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Settings Panel (Slide-in from right) */}
+      <SettingsDrawer
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        user={user}
+        onSave={updateProfile}
+      />
+
+      {/* Navigation Tabs (Desktop) */}
+      <div className="hidden md:block bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex space-x-8">
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={linkFor(item.href)}
+                className={`px-1 py-4 text-sm font-medium border-b-2 ${
+                  pathname === item.href
+                    ? "border-green-500 text-green-600"
+                    : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                }`}
+              >
+                {item.label}
+              </Link>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {children}
+      </main>
+
+      <footer className="bg-white border-t mt-12">
+        <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+          <div className="flex flex-col items-center justify-between gap-4 md:flex-row">
+            <p className="text-sm text-gray-500">
+              &copy; {new Date().getFullYear()} Pantry Tracker. All rights
+              reserved.
+            </p>
+            <p className="text-sm text-gray-500">
+              Data updated weekly on Sundays
+            </p>
+          </div>
+        </div>
+      </footer>
+    </div>
+  );
+}
+
+export default function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <DashboardProvider>
+      <DashboardShell>{children}</DashboardShell>
+    </DashboardProvider>
+  );
+}
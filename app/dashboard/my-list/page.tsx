@@ -0,0 +1,171 @@
+"use client";
+
+import { Suspense, useMemo } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { LayoutGrid, ShoppingBag, ShoppingCart, Table } from "lucide-react";
+import { motion } from "framer-motion";
+import ListItemEditor from "@/components/list-item-editor";
+import PriceMatrix from "@/components/price-matrix";
+import ProductCard from "@/components/product-card";
+import ShoppingTimePicker from "@/components/shopping-time-picker";
+import TripPlanner from "@/components/trip-planner";
+import { getShoppingStyle } from "@/lib/shopping-styles";
+import { estimateZipCenter, limitToStores } from "@/lib/stores";
+import { useDashboard } from "../dashboard-context";
+
+const LIST_VIEWS = [
+  { value: "cards", label: "Cards", icon: LayoutGrid },
+  { value: "compare", label: "Compare stores", icon: Table },
+] as const;
+
+function MyList() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // In the URL like the other list views, so a refresh keeps the table open
+  const view = searchParams.get("view") === "compare" ? "compare" : "cards";
+  const {
+    user,
+    myList,
+    isMyListLoading,
+    removeFromList,
+    updateListItem,
+    dashboardData,
+    activeZipCode,
+    shoppingTime,
+    setShoppingTime,
+    openStores,
+  } = useDashboard();
+  const stores = dashboardData?.stores;
+  const origin = useMemo(
+    () => (stores ? estimateZipCenter(stores, activeZipCode) : null),
+    [stores, activeZipCode]
+  );
+  // Priced at the stores open when the user plans to shop, if they said when
+  const listItems = useMemo(
+    () =>
+      shoppingTime
+        ? myList.map((item) => limitToStores(item, openStores))
+        : myList,
+    [myList, shoppingTime, openStores]
+  );
+  const highlightedBadges = user
+    ? getShoppingStyle(user.shoppingStyle).highlightedBadges
+    : [];
+
+  return (
+    <motion.div
+      key="mylist"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <ShoppingBag className="h-5 w-5 mr-2 text-green-600" />
+            My Shopping List
+          </h2>
+          <div className="flex flex-wrap items-center gap-4">
+            <ShoppingTimePicker
+              value={shoppingTime}
+              onChange={setShoppingTime}
+            />
+            {myList.length > 0 && (
+              <Link
+                href="/dashboard/my-list/shop"
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors"
+              >
+                <ShoppingCart className="h-4 w-4 mr-1" />
+                Start shopping
+              </Link>
+            )}
+            <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+              {LIST_VIEWS.map(({ value, label, icon: Icon }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() =>
+                    router.replace(
+                      value === "cards"
+                        ? "/dashboard/my-list"
+                        : `/dashboard/my-list?view=${value}`,
+                      { scroll: false }
+                    )
+                  }
+                  className={`inline-flex items-center px-3 py-1 text-sm ${
+                    view === value
+                      ? "bg-green-600 text-white"
+                      : "bg-white text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  <Icon className="h-4 w-4 mr-1" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {isMyListLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+              <p className="mt-4">Loading your list...</p>
+            </div>
+          </div>
+        ) : myList.length > 0 && view === "compare" ? (
+          <PriceMatrix items={listItems} stores={openStores} />
+        ) : myList.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {listItems.map((item, index) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 * index }}
+                whileHover={{ y: -5 }}
+                className="h-full"
+              >
+                <ProductCard
+                  product={item}
+                  onRemoveFromList={removeFromList}
+                  isInList={true}
+                  highlightedBadges={highlightedBadges}
+                >
+                  <ListItemEditor
+                    item={item}
+                    stores={stores ?? []}
+                    onChange={updateListItem}
+                  />
+                </ProductCard>
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <ShoppingBag className="h-12 w-12 mx-auto text-gray-300" />
+            <p className="mt-4 text-gray-500">Your shopping list is empty.</p>
+            <p className="mt-2 text-sm text-gray-400">
+              Search for products or add items from the dashboard to build your
+              list.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {!isMyListLoading && myList.length > 0 && stores && (
+        <TripPlanner items={listItems} stores={openStores} origin={origin} />
+      )}
+    </motion.div>
+  );
+}
+
+export default function MyListPage() {
+  return (
+    <Suspense fallback={null}>
+      <MyList />
+    </Suspense>
+  );
+}
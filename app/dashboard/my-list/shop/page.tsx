@@ -0,0 +1,318 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, CheckCircle2, Circle, ShoppingCart } from "lucide-react";
+import {
+  clearShoppingTrip,
+  groupByAisle,
+  loadShoppingTrip,
+  newShoppingTrip,
+  saveShoppingTrip,
+  toPantryStock,
+  type ShoppingTrip,
+} from "@/lib/shopping-trip";
+import { getPriceAtStore } from "@/lib/stores";
+import type { ProductType } from "@/lib/types";
+import { useDashboard } from "../../dashboard-context";
+
+export default function ShoppingModePage() {
+  const router = useRouter();
+  const {
+    user,
+    myList,
+    isMyListLoading,
+    myPantryItems,
+    dashboardData,
+    finishShoppingTrip,
+  } = useDashboard();
+  const [trip, setTrip] = useState<ShoppingTrip | null>(null);
+  const [addToPantry, setAddToPantry] = useState(true);
+  const [removeBought, setRemoveBought] = useState(true);
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  // Pick up a trip left in progress on this device
+  useEffect(() => {
+    if (user) {
+      setTrip(loadShoppingTrip(user._id) ?? newShoppingTrip());
+    }
+  }, [user]);
+
+  if (!user || !trip) {
+    return null;
+  }
+
+  const stores = dashboardData?.stores ?? [];
+  const store = stores.find((entry) => entry._id === trip.storeId) ?? null;
+
+  const updateTrip = (next: ShoppingTrip) => {
+    setTrip(next);
+    saveShoppingTrip(user._id, next);
+  };
+
+  // Price at the store being shopped, or the best known price elsewhere
+  const estimatePrice = (item: ProductType) =>
+    (store ? getPriceAtStore(store, item) : null) ??
+    item.lowestPrice?.price ??
+    null;
+
+  const toggleItem = (item: ProductType) => {
+    const { [item.id]: wasChecked, ...rest } = trip.checked;
+    updateTrip({
+      ...trip,
+      checked: wasChecked
+        ? rest
+        : { ...trip.checked, [item.id]: { pricePaid: estimatePrice(item) } },
+    });
+  };
+
+  const setPricePaid = (item: ProductType, value: string) => {
+    const price = Number.parseFloat(value);
+    updateTrip({
+      ...trip,
+      checked: {
+        ...trip.checked,
+        [item.id]: { pricePaid: isNaN(price) || price < 0 ? null : price },
+      },
+    });
+  };
+
+  const quantityOf = (item: ProductType) => item.quantity || 1;
+  const checkedItems = myList.filter((item) => trip.checked[item.id]);
+  const estimatedTotal = myList.reduce(
+    (sum, item) => sum + (estimatePrice(item) ?? 0) * quantityOf(item),
+    0
+  );
+  const runningTotal = checkedItems.reduce(
+    (sum, item) =>
+      sum + (trip.checked[item.id].pricePaid ?? 0) * quantityOf(item),
+    0
+  );
+
+  // Can't be logged as purchases until the user enters what they paid
+  const unpricedItems = checkedItems.filter(
+    (item) => trip.checked[item.id].pricePaid === null
+  );
+  const savedSteps = trip.savedSteps ?? [];
+  const stockedIds = trip.stockedIds ?? [];
+
+  const handleFinish = async () => {
+    setIsFinishing(true);
+    try {
+      const purchasedAt = new Date().toISOString();
+      // Kept with the trip, so a retry doesn't save these again
+      const progress = { savedSteps: [...savedSteps], stockedIds };
+      const saved = await finishShoppingTrip(
+        {
+          // Nothing is logged for items whose price nobody knows
+          purchases: checkedItems
+            .filter((item) => trip.checked[item.id].pricePaid !== null)
+            .map((item) => ({
+              productId: item.id,
+              itemName: item.name,
+              store: store?.name ?? item.lowestPrice?.store ?? "",
+              price: trip.checked[item.id].pricePaid ?? 0,
+              quantity: quantityOf(item),
+              purchasedAt,
+            })),
+          pantryStock: addToPantry
+            ? toPantryStock(
+                checkedItems.filter((item) => !stockedIds.includes(item.id)),
+                myPantryItems
+              )
+            : [],
+          removeFromList: removeBought
+            ? checkedItems.map((item) => item.id)
+            : [],
+          savedSteps,
+        },
+        (step) => {
+          progress.savedSteps = [...progress.savedSteps, step];
+          updateTrip({ ...trip, ...progress });
+        },
+        (productIds) => {
+          progress.stockedIds = [...progress.stockedIds, ...productIds];
+          updateTrip({ ...trip, ...progress });
+        }
+      );
+
+      if (saved) {
+        clearShoppingTrip(user._id);
+        router.push(
+          addToPantry ? "/dashboard/my-pantry" : "/dashboard/my-list"
+        );
+      }
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto pb-40">
+      <div className="flex items-center justify-between mb-4">
+        <Link
+          href="/dashboard/my-list"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          My List
+        </Link>
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <ShoppingCart className="h-5 w-5 mr-2 text-green-600" />
+          Shopping Mode
+        </h2>
+      </div>
+
+      <label className="block mb-6 text-sm text-gray-700">
+        Shopping at
+        <select
+          value={trip.storeId ?? ""}
+          onChange={(e) =>
+            updateTrip({ ...trip, storeId: e.target.value || null })
+          }
+          className="mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 text-base focus:outline-none focus:ring-green-500 focus:border-green-500"
+        >
+          <option value="">Choose a store</option>
+          {stores.map((entry) => (
+            <option key={entry._id} value={entry._id}>
+              {entry.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {isMyListLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+        </div>
+      ) : myList.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">
+          Your shopping list is empty.
+        </p>
+      ) : (
+        groupByAisle(myList).map(({ aisle, items }) => (
+          <section key={aisle} className="mb-6">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              {aisle}
+            </h3>
+            <ul className="bg-white rounded-lg shadow-sm divide-y">
+              {items.map((item) => {
+                const checked = trip.checked[item.id];
+                const estimate = estimatePrice(item);
+                return (
+                  <li key={item.id} className="p-3">
+                    <button
+                      type="button"
+                      onClick={() => toggleItem(item)}
+                      className="w-full flex items-center text-left min-h-[44px]"
+                      aria-pressed={!!checked}
+                    >
+                      {checked ? (
+                        <CheckCircle2 className="h-6 w-6 mr-3 flex-shrink-0 text-green-600" />
+                      ) : (
+                        <Circle className="h-6 w-6 mr-3 flex-shrink-0 text-gray-300" />
+                      )}
+                      <span className="flex-1">
+                        <span
+                          className={`block font-medium ${
+                            checked ? "line-through text-gray-400" : ""
+                          }`}
+                        >
+                          {item.name}
+                          {quantityOf(item) > 1 && ` × ${quantityOf(item)}`}
+                        </span>
+                        {item.notes && (
+                          <span className="block text-xs text-gray-500">
+                            {item.notes}
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        {estimate !== null ? `$${estimate.toFixed(2)}` : "—"}
+                      </span>
+                    </button>
+                    {checked && (
+                      <label className="mt-2 ml-9 flex items-center text-sm text-gray-600">
+                        Paid each $
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          step="0.01"
+                          min="0"
+                          value={checked.pricePaid ?? ""}
+                          onChange={(e) => setPricePaid(item, e.target.value)}
+                          className={`ml-1 w-24 border rounded-md py-1 px-2 focus:outline-none focus:ring-green-500 focus:border-green-500 ${checked.pricePaid === null ? "border-amber-400" : "border-gray-300"}`}
+                        />
+                      </label>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+
+      <div className="fixed bottom-0 inset-x-0 bg-white border-t shadow-lg">
+        <div className="max-w-2xl mx-auto p-4">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm text-gray-600">
+              {checkedItems.length} of {myList.length} in cart
+            </span>
+            <span className="text-lg font-semibold">
+              ${runningTotal.toFixed(2)}
+              <span className="ml-1 text-sm font-normal text-gray-500">
+                of ~${estimatedTotal.toFixed(2)}
+              </span>
+            </span>
+          </div>
+          <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+            <label className="inline-flex items-center">
+              <input
+                type="checkbox"
+                checked={addToPantry}
+                onChange={(e) => setAddToPantry(e.target.checked)}
+                className="mr-2 h-4 w-4 text-green-600 border-gray-300 rounded"
+              />
+              Add to My Pantry
+            </label>
+            <label className="inline-flex items-center">
+              <input
+                type="checkbox"
+                checked={removeBought}
+                onChange={(e) => setRemoveBought(e.target.checked)}
+                className="mr-2 h-4 w-4 text-green-600 border-gray-300 rounded"
+              />
+              Remove from My List
+            </label>
+          </div>
+          {savedSteps.includes("purchases") && (
+            <p className="mt-2 text-sm text-amber-700">
+              Your purchases are saved
+              {stockedIds.length > 0 &&
+                `, and ${stockedIds.length} of the items are in your pantry`}
+              . Finish again to update your pantry and list.
+            </p>
+          )}
+          {unpricedItems.length > 0 && (
+            <p className="mt-2 text-sm text-amber-700">
+              No price for {unpricedItems.map((item) => item.name).join(", ")}.
+              Enter what you paid, or{" "}
+              {unpricedItems.length === 1 ? "it" : "they"} won&apos;t be logged
+              as purchases.
+            </p>
+          )}
+          <button
+            type="button"
+            onClick={handleFinish}
+            disabled={checkedItems.length === 0 || isFinishing}
+            className="mt-3 w-full py-3 rounded-md text-white font-medium bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          >
+            {isFinishing ? "Saving..." : "Finish trip"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,726 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  Clock,
+  History,
+  List,
+  Minus,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Warehouse,
+} from "lucide-react";
+import { motion } from "framer-motion";
+import AddPantryItemModal from "@/components/add-pantry-item-modal";
+import ExpiringItems from "@/components/expiring-items";
+import PriceTrendChart from "@/components/price-trend-chart";
+import RestockSuggestions from "@/components/restock-suggestions";
+import StorageLocations from "@/components/storage-locations";
+import { daysUntilExpiry, describeExpiry, getExpiryStatus } from "@/lib/expiry";
+import {
+  compareByRunOut,
+  describeRunOut,
+  forecastPantryItem,
+  type PantryForecast,
+} from "@/lib/pantry-forecast";
+import type { PantryChange } from "@/lib/pantry-history";
+import { getPaidPrices } from "@/lib/purchases";
+import { planRestock } from "@/lib/restock";
+import {
+  getUsedCapacity,
+  groupByStorageLocation,
+} from "@/lib/storage-locations";
+import type { NewPantryItem, ProductType, StorageLocation } from "@/lib/types";
+import { useDashboard } from "../dashboard-context";
+
+const NO_CHANGES: PantryChange[] = [];
+
+const PANTRY_VIEWS = [
+  { value: "list", label: "List", icon: List },
+  { value: "locations", label: "By location", icon: Warehouse },
+] as const;
+
+function MyPantry() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // In the URL like My List's views, so a refresh keeps the grouping
+  const view = searchParams.get("view") === "locations" ? "locations" : "list";
+  const {
+    myPantryItems,
+    isMyPantryLoading,
+    myPantryTrends,
+    isMyPantryTrendsLoading,
+    pantryQuantityHistory,
+    pantryHistory,
+    wasteLog,
+    addPantryItem,
+    purchases,
+    priceTrends,
+    dashboardData,
+    myList,
+    addToList,
+    updatePantryItem,
+    movePantryItems,
+    removePantryItems,
+    storageLocations,
+    addStorageLocation,
+    removeStorageLocation,
+  } = useDashboard();
+  const [isAddPantryItemModalOpen, setIsAddPantryItemModalOpen] =
+    useState(false);
+  const [editingItem, setEditingItem] = useState<ProductType | null>(null);
+  const [restockLeadTime, setRestockLeadTime] = useState(7);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Items deleted elsewhere drop out of the selection
+  const selected = selectedIds.filter((id) =>
+    myPantryItems.some((item) => item.id === id)
+  );
+
+  // Runs out soonest first. Usage the backend has on file comes with the
+  // price trends, which share ids with pantry items.
+  const forecastRows = myPantryItems
+    .map((item) => ({
+      item,
+      forecast: forecastPantryItem(
+        item.quantity ?? 1,
+        myPantryTrends.find((trend) => trend.id === item.id)?.monthlyUsage,
+        pantryQuantityHistory[item.id]
+      ),
+    }))
+    .sort((a, b) => compareByRunOut(a.forecast, b.forecast));
+
+  const restockSuggestions = planRestock(forecastRows, restockLeadTime, {
+    products: [
+      ...(dashboardData?.pantryItems ?? []),
+      ...(dashboardData?.produceItems ?? []),
+      ...(dashboardData?.buyAlerts ?? []),
+    ],
+    priceTrends,
+    listItems: myList,
+  });
+
+  const moveItem = (itemId: string, locationId: string | null) =>
+    updatePantryItem(itemId, { storageLocationId: locationId });
+
+  // Quantity goes down to zero rather than removing the item, so it can
+  // still be forecast and restocked
+  const consumeItem = (item: ProductType, change: number) =>
+    updatePantryItem(item.id, {
+      quantity: Math.max(0, (item.quantity ?? 1) + change),
+    });
+
+  const toggleSelected = (itemId: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(itemId)
+        ? prev.filter((id) => id !== itemId)
+        : [...prev, itemId]
+    );
+
+  const renderRows = (rows: typeof forecastRows) =>
+    rows.map(({ item, forecast }) => (
+      <PantryItemRow
+        key={item.id}
+        item={item}
+        forecast={forecast}
+        storageLocations={storageLocations}
+        history={pantryHistory[item.id] ?? NO_CHANGES}
+        isSelected={selected.includes(item.id)}
+        onToggleSelected={toggleSelected}
+        onMove={moveItem}
+        onConsume={consumeItem}
+        onEdit={setEditingItem}
+      />
+    ));
+
+  const handleAddPantryItem = async (item: NewPantryItem) => {
+    if (await addPantryItem(item)) {
+      setIsAddPantryItemModalOpen(false);
+    }
+  };
+
+  const handleEditPantryItem = async (changes: NewPantryItem) => {
+    if (!editingItem) return;
+    const saved = await updatePantryItem(editingItem.id, {
+      ...changes,
+      // The form leaves out fields the user emptied, which should be cleared
+      purchasedAt: changes.purchasedAt ?? null,
+      expiresAt: changes.expiresAt ?? null,
+      storageLocationId: changes.storageLocationId ?? null,
+    });
+    if (saved) {
+      setEditingItem(null);
+    }
+  };
+
+  // Items that couldn't be moved or deleted stay selected for another try
+  const handleMoveSelected = async (locationId: string | null) =>
+    setSelectedIds(await movePantryItems(selected, locationId));
+
+  const handleDeleteSelected = async () => {
+    const count = selected.length;
+    if (
+      !confirm(
+        `Remove ${count === 1 ? "this item" : `these ${count} items`} from your pantry?`
+      )
+    ) {
+      return;
+    }
+    setSelectedIds(await removePantryItems(selected));
+  };
+
+  return (
+    <>
+      <AddPantryItemModal
+        isOpen={isAddPantryItemModalOpen}
+        onClose={() => setIsAddPantryItemModalOpen(false)}
+        onAdd={handleAddPantryItem}
+        storageLocations={storageLocations}
+      />
+
+      <AddPantryItemModal
+        key={editingItem?.id}
+        isOpen={editingItem !== null}
+        onClose={() => setEditingItem(null)}
+        onAdd={handleEditPantryItem}
+        storageLocations={storageLocations}
+        item={editingItem}
+      />
+
+      <motion.div
+        key="myPantry"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        transition={{ duration: 0.3 }}
+      >
+        {(myPantryItems.some((item) => item.expiresAt) ||
+          wasteLog.length > 0) && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center mb-6">
+              <Clock className="h-5 w-5 mr-2 text-green-600" />
+              Expiring Soon
+            </h2>
+            <ExpiringItems
+              pantryItems={myPantryItems}
+              purchases={purchases}
+              thrownOut={wasteLog}
+            />
+          </div>
+        )}
+
+        {forecastRows.some(({ forecast }) => forecast.daysLeft !== null) && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center mb-6">
+              <RefreshCw className="h-5 w-5 mr-2 text-green-600" />
+              Restock Suggestions
+            </h2>
+            <RestockSuggestions
+              suggestions={restockSuggestions}
+              leadTimeDays={restockLeadTime}
+              onLeadTimeChange={setRestockLeadTime}
+              onAddToList={addToList}
+            />
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="h-5 w-5 mr-2 text-green-600"
+              >
+                <path d="M20 7h-3a2 2 0 0 1-2-2V2" />
+                <path d="M9 2v3a2 2 0 0 1-2 2H4" />
+                <path d="M12 22v-7" />
+                <path d="M5 8v14h14V8" />
+                <path d="M5 2v3a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V2" />
+              </svg>
+              My Pantry Items
+            </h2>
+            <div className="flex items-center gap-3">
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                {PANTRY_VIEWS.map(({ value, label, icon: Icon }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() =>
+                      router.replace(
+                        value === "list"
+                          ? "/dashboard/my-pantry"
+                          : `/dashboard/my-pantry?view=${value}`,
+                        { scroll: false }
+                      )
+                    }
+                    className={`inline-flex items-center px-3 py-1 text-sm ${
+                      view === value
+                        ? "bg-green-600 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mr-1" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setIsAddPantryItemModalOpen(true)}
+                className="inline-flex items-center px-3 py-1.5 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add New Pantry Item
+              </button>
+            </div>
+          </div>
+
+          {view === "locations" && (
+            <div className="mb-6 pb-6 border-b border-gray-200">
+              <StorageLocations
+                locations={storageLocations}
+                items={myPantryItems}
+                onAdd={addStorageLocation}
+                onRemove={removeStorageLocation}
+              />
+            </div>
+          )}
+
+          {selected.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 mb-4 p-3 rounded-md bg-green-50 border border-green-100 text-sm">
+              <span className="font-medium text-gray-900">
+                {selected.length} selected
+              </span>
+              {storageLocations.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) =>
+                    handleMoveSelected(
+                      e.target.value === "none" ? null : e.target.value
+                    )
+                  }
+                  className="border border-gray-300 rounded-md py-1 px-2 text-sm text-gray-700 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                  aria-label="Move selected items"
+                >
+                  <option value="" disabled>
+                    Move to...
+                  </option>
+                  {storageLocations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                  <option value="none">Not put away</option>
+                </select>
+              )}
+              <button
+                type="button"
+                onClick={handleDeleteSelected}
+                className="inline-flex items-center px-3 py-1 rounded-md border border-red-200 text-red-700 bg-white hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setSelectedIds(myPantryItems.map((item) => item.id))
+                }
+                className="text-green-700 hover:text-green-800"
+              >
+                Select all
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedIds([])}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          {/* My Pantry Content */}
+          {/* Only the first load, so refetching after a change keeps the rows */}
+          {isMyPantryLoading && myPantryItems.length === 0 ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-center">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+                <p className="mt-4">Loading your pantry items...</p>
+              </div>
+            </div>
+          ) : myPantryItems.length > 0 && view === "locations" ? (
+            <div className="space-y-6">
+              {groupByStorageLocation(
+                forecastRows.map(({ item }) => item),
+                storageLocations
+              ).map(({ location, items }) => (
+                <div key={location?.id ?? "unassigned"}>
+                  <h3 className="text-md font-medium text-gray-800 mb-2">
+                    {location ? location.name : "Not put away"}
+                    {location && (
+                      <span className="ml-2 text-sm font-normal text-gray-500">
+                        <StorageUsage
+                          location={location}
+                          items={myPantryItems}
+                        />
+                      </span>
+                    )}
+                  </h3>
+                  {items.length > 0 ? (
+                    <div className="space-y-4">
+                      {renderRows(
+                        forecastRows.filter(({ item }) => items.includes(item))
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-400">Nothing here yet.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : myPantryItems.length > 0 ? (
+            <div className="space-y-4">{renderRows(forecastRows)}</div>
+          ) : (
+            <div className="text-center py-12">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="48"
+                height="48"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="mx-auto text-gray-300"
+              >
+                <path d="M20 7h-3a2 2 0 0 1-2-2V2" />
+                <path d="M9 2v3a2 2 0 0 1-2 2H4" />
+                <path d="M12 22v-7" />
+                <path d="M5 8v14h14V8" />
+                <path d="M5 2v3a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V2" />
+              </svg>
+              <p className="mt-4 text-gray-500">Your pantry is empty.</p>
+              <p className="mt-2 text-sm text-gray-400">
+                Add items to your pantry to track prices and get alerts when
+                prices drop.
+              </p>
+              <button
+                onClick={() => setIsAddPantryItemModalOpen(true)}
+                className="mt-4 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Your First Pantry Item
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Price Trends for My Pantry */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-medium text-gray-900 flex items-center">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                className="h-5 w-5 mr-2 text-green-600"
+              >
+                <path d="M3 3v18h18" />
+                <path d="m19 9-5 5-4-4-3 3" />
+              </svg>
+              My Pantry Price Trends
+            </h2>
+          </div>
+
+          {isMyPantryTrendsLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="text-center">
+                <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+                <p className="mt-4">Loading price trends...</p>
+              </div>
+            </div>
+          ) : myPantryTrends && myPantryTrends.length > 0 ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {myPantryTrends.slice(0, 4).map((trend) => (
+                <PriceTrendChart
+                  key={trend.id}
+                  itemName={trend.name}
+                  priceHistory={trend.priceHistory}
+                  priceChange={trend.priceChange}
+                  currentPrice={trend.currentPrice}
+                  lowestPrice={trend.lowestPrice}
+                  highestPrice={trend.highestPrice}
+                  storeName={trend.storeName}
+                  paidPrices={getPaidPrices(purchases, trend)}
+                  quantity={trend.quantity}
+                  monthlyUsage={trend.monthlyUsage}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <p className="text-gray-500">
+                No price trends available for your pantry items.
+              </p>
+              <p className="mt-2 text-sm text-gray-400">
+                Add items to your pantry to start tracking price trends.
+              </p>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </>
+  );
+}
+
+function ExpiryLabel({ item }: { item: ProductType }) {
+  const days = daysUntilExpiry(item);
+  if (days === null) return null;
+
+  const status = getExpiryStatus(item);
+  const color =
+    status === "expired"
+      ? "text-red-600"
+      : status === "expiringSoon"
+        ? "text-amber-600"
+        : "text-gray-500";
+  return <p className={`text-xs ${color}`}>{describeExpiry(days)}</p>;
+}
+
+function RunOutLabel({ forecast }: { forecast: PantryForecast }) {
+  if (forecast.daysLeft === null || forecast.monthlyUsage === null) {
+    return null;
+  }
+
+  return (
+    <p
+      className={`text-xs ${forecast.daysLeft < 7 ? "text-amber-600" : "text-gray-500"}`}
+      title={
+        forecast.usageSource === "learned"
+          ? "Based on how fast your quantity has gone down"
+          : "Based on your expected monthly usage"
+      }
+    >
+      {describeRunOut(forecast.daysLeft)} · uses{" "}
+      {Number(forecast.monthlyUsage.toFixed(1))}/month
+    </p>
+  );
+}
+
+function StorageUsage({
+  location,
+  items,
+}: {
+  location: StorageLocation;
+  items: ProductType[];
+}) {
+  const used = getUsedCapacity(location, items);
+  if (location.capacity === null) {
+    return (
+      <>
+        {used} {used === 1 ? "item" : "items"}
+      </>
+    );
+  }
+  return (
+    <span className={used > location.capacity ? "text-red-600" : undefined}>
+      {used} of about {location.capacity} items
+    </span>
+  );
+}
+
+function PantryHistoryList({ history }: { history: PantryChange[] }) {
+  if (history.length === 0) {
+    return (
+      <p className="text-xs text-gray-400">
+        No changes recorded on this device yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {history.map((change) => (
+        <li
+          key={`${change.at}-${change.summary}`}
+          className="flex justify-between gap-4 text-xs text-gray-600"
+        >
+          <span>{change.summary}</span>
+          <span className="text-gray-400">
+            {new Date(change.at).toLocaleString(undefined, {
+              dateStyle: "medium",
+              timeStyle: "short",
+            })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function PantryItemRow({
+  item,
+  forecast,
+  storageLocations,
+  history,
+  isSelected,
+  onToggleSelected,
+  onMove,
+  onConsume,
+  onEdit,
+}: {
+  item: ProductType;
+  forecast: PantryForecast;
+  storageLocations: StorageLocation[];
+  history: PantryChange[];
+  isSelected: boolean;
+  onToggleSelected: (itemId: string) => void;
+  onMove: (itemId: string, locationId: string | null) => void;
+  // Adds to the quantity on hand; negative when some was used
+  onConsume: (item: ProductType, change: number) => Promise<boolean>;
+  onEdit: (item: ProductType) => void;
+}) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const quantity = item.quantity ?? 1;
+
+  const handleConsume = async (change: number) => {
+    setIsUpdating(true);
+    try {
+      await onConsume(item, change);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className={`p-4 border rounded-lg hover:shadow-sm transition-shadow ${
+        isSelected ? "border-green-500 bg-green-50/40" : ""
+      }`}
+      whileHover={{ x: 5 }}
+      transition={{ type: "spring", stiffness: 300 }}
+    >
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={() => onToggleSelected(item.id)}
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+            aria-label={`Select ${item.name}`}
+          />
+          <div>
+            <h3 className="font-medium">{item.name}</h3>
+            <p className="text-sm text-gray-500">
+              {item.size} {item.unit}
+            </p>
+            <RunOutLabel forecast={forecast} />
+            {storageLocations.length > 0 && (
+              <select
+                value={item.storageLocationId ?? ""}
+                onChange={(e) => onMove(item.id, e.target.value || null)}
+                className="mt-1 border border-gray-300 rounded-md py-0.5 px-2 text-xs text-gray-700 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                aria-label={`Where ${item.name} is kept`}
+              >
+                <option value="">Not put away</option>
+                {storageLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+        <div className="text-right">
+          {item.lowestPrice ? (
+            <p className="font-medium">${item.lowestPrice.price.toFixed(2)}</p>
+          ) : (
+            <p className="text-sm text-gray-500">Price unknown</p>
+          )}
+          <div className="mt-1 inline-flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => handleConsume(-1)}
+              disabled={isUpdating || quantity <= 0}
+              className="p-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              aria-label={`Used one ${item.name}`}
+            >
+              <Minus className="h-3 w-3" />
+            </button>
+            <span
+              className={`w-14 text-center text-xs ${quantity === 0 ? "text-red-600" : "text-gray-600"}`}
+            >
+              {quantity === 0 ? "Out" : `Qty: ${quantity}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => handleConsume(1)}
+              disabled={isUpdating}
+              className="p-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              aria-label={`Add one ${item.name}`}
+            >
+              <Plus className="h-3 w-3" />
+            </button>
+          </div>
+          <ExpiryLabel item={item} />
+          <div className="mt-1 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => onEdit(item)}
+              className="text-gray-400 hover:text-green-700"
+              aria-label={`Edit ${item.name}`}
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowHistory((prev) => !prev)}
+              className={
+                showHistory
+                  ? "text-green-700"
+                  : "text-gray-400 hover:text-green-700"
+              }
+              aria-label={`History of ${item.name}`}
+              aria-expanded={showHistory}
+            >
+              <History className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+      {showHistory && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <PantryHistoryList history={history} />
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default function MyPantryPage() {
+  return (
+    <Suspense fallback={null}>
+      <MyPantry />
+    </Suspense>
+  );
+}
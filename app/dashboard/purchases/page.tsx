@@ -0,0 +1,160 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { FileText, Receipt, Trash2 } from "lucide-react";
+import PurchaseForm from "@/components/purchase-form";
+import ReceiptImport from "@/components/receipt-import";
+import { totalSpent } from "@/lib/purchases";
+import { useDashboard } from "../dashboard-context";
+
+export default function PurchasesPage() {
+  const {
+    purchases,
+    isPurchasesLoading,
+    logPurchases,
+    removePurchase,
+    updatePantryItem,
+    myList,
+    myPantryItems,
+    dashboardData,
+  } = useDashboard();
+
+  const itemNames = Array.from(
+    new Set([...myList, ...myPantryItems].map((item) => item.name))
+  );
+  const storeNames = Array.from(
+    new Set((dashboardData?.stores ?? []).map((store) => store.name))
+  );
+
+  const sortedPurchases = [...purchases].sort(
+    (a, b) =>
+      new Date(b.purchasedAt).getTime() - new Date(a.purchasedAt).getTime()
+  );
+
+  const monthStart = new Date();
+  monthStart.setDate(1);
+  monthStart.setHours(0, 0, 0, 0);
+  const spentThisMonth = totalSpent(
+    purchases.filter((purchase) => new Date(purchase.purchasedAt) >= monthStart)
+  );
+
+  return (
+    <motion.div
+      key="purchases"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <Receipt className="h-5 w-5 mr-2 text-green-600" />
+            Purchase Log
+          </h2>
+          <p className="text-sm text-gray-600">
+            Spent this month:{" "}
+            <span className="font-medium">${spentThisMonth.toFixed(2)}</span>
+          </p>
+        </div>
+
+        <PurchaseForm
+          itemNames={itemNames}
+          storeNames={storeNames}
+          onSubmit={(purchase) => logPurchases([purchase])}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center mb-6">
+          <FileText className="h-5 w-5 mr-2 text-green-600" />
+          Import a Receipt
+        </h2>
+        <ReceiptImport
+          pantryItems={myPantryItems}
+          listItems={myList}
+          storeNames={storeNames}
+          onLogPurchases={logPurchases}
+          onUpdatePantryItem={updatePantryItem}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        {isPurchasesLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+              <p className="mt-4">Loading your purchases...</p>
+            </div>
+          </div>
+        ) : sortedPurchases.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Item</th>
+                  <th className="py-2 pr-4 font-medium">Store</th>
+                  <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    Paid each
+                  </th>
+                  <th className="py-2 pr-4 font-medium text-right">Total</th>
+                  <th className="py-2">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedPurchases.map((purchase) => (
+                  <tr key={purchase.id} className="border-b border-gray-100">
+                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">
+                      {new Date(purchase.purchasedAt).toLocaleDateString(
+                        "en-US",
+                        { month: "short", day: "numeric", year: "numeric" }
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-900">
+                      {purchase.itemName}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {purchase.store || "—"}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {purchase.quantity}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      ${purchase.price.toFixed(2)}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-medium">
+                      ${(purchase.price * purchase.quantity).toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removePurchase(purchase.id)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${purchase.itemName} purchase`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Receipt className="h-12 w-12 mx-auto text-gray-300" />
+            <p className="mt-4 text-gray-500">No purchases logged yet.</p>
+            <p className="mt-2 text-sm text-gray-400">
+              Finish a trip in shopping mode or log what you paid above to see
+              it next to store prices.
+            </p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
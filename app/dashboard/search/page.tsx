@@ -0,0 +1,168 @@
+"use client";
+
+import { Suspense, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Search } from "lucide-react";
+import { motion } from "framer-motion";
+import ProductCard from "@/components/product-card";
+import {
+  PRODUCT_CATEGORIES,
+  PRODUCT_SORTS,
+  buildProductQuery,
+  filterProducts,
+  parseCategory,
+  parseSort,
+  sortProducts,
+  type ProductCategory,
+  type ProductSort,
+} from "@/lib/product-filters";
+import { getShoppingStyle } from "@/lib/shopping-styles";
+import { useDashboard } from "../dashboard-context";
+
+function SearchResults() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const {
+    user,
+    setSearchQuery,
+    searchedQuery,
+    isSearching,
+    searchResults,
+    runSearch,
+    addToList,
+  } = useDashboard();
+
+  // Everything about this view comes from the URL: ?q=&category=&sort=
+  const query = searchParams.get("q")?.trim() || "";
+  const category = parseCategory(searchParams.get("category"));
+  const sort = parseSort(searchParams.get("sort"));
+
+  useEffect(() => {
+    if (query && query !== searchedQuery) {
+      setSearchQuery(query);
+      runSearch(query);
+    }
+  }, [query]);
+
+  const updateParams = (changes: {
+    category?: ProductCategory;
+    sort?: ProductSort;
+  }) => {
+    router.replace(
+      `/dashboard/search${buildProductQuery({ q: query, category, sort, ...changes })}`,
+      { scroll: false }
+    );
+  };
+
+  const highlightedBadges = user
+    ? getShoppingStyle(user.shoppingStyle).highlightedBadges
+    : [];
+
+  const visibleResults = sortProducts(
+    filterProducts(searchResults, category),
+    sort
+  );
+
+  return (
+    <motion.div
+      key="search"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      transition={{ duration: 0.3 }}
+    >
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-lg font-medium text-gray-900 flex items-center">
+            <Search className="h-5 w-5 mr-2 text-green-600" />
+            {query ? `Search Results for "${query}"` : "Search Results"}
+          </h2>
+          <div className="flex space-x-2">
+            <select
+              className="text-sm border border-gray-300 rounded-md shadow-sm py-1 px-3 bg-white"
+              value={category}
+              onChange={(e) =>
+                updateParams({ category: parseCategory(e.target.value) })
+              }
+            >
+              {PRODUCT_CATEGORIES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="text-sm border border-gray-300 rounded-md shadow-sm py-1 px-3 bg-white"
+              value={sort}
+              onChange={(e) =>
+                updateParams({ sort: parseSort(e.target.value) })
+              }
+            >
+              {PRODUCT_SORTS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isSearching ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-green-600 border-r-transparent"></div>
+              <p className="mt-4">Searching for products...</p>
+            </div>
+          </div>
+        ) : !query ? (
+          <div className="text-center py-12">
+            <Search className="h-12 w-12 mx-auto text-gray-300" />
+            <p className="mt-4 text-gray-500">
+              Search for products using the search bar above.
+            </p>
+          </div>
+        ) : visibleResults.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visibleResults.map((item, index) => (
+              <motion.div
+                key={item.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 * index }}
+                whileHover={{ y: -5 }}
+                className="h-full"
+              >
+                <ProductCard
+                  product={item}
+                  onAddToList={addToList}
+                  highlightedBadges={highlightedBadges}
+                />
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Search className="h-12 w-12 mx-auto text-gray-300" />
+            <p className="mt-4 text-gray-500">
+              {searchResults.length > 0
+                ? "No results match this filter."
+                : `No products found for "${query}"`}
+            </p>
+            <p className="mt-2 text-sm text-gray-400">
+              Try a different search term or browse the dashboard for products.
+            </p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export default function SearchPage() {
+  // useSearchParams needs a Suspense boundary, as on the login page
+  return (
+    <Suspense fallback={null}>
+      <SearchResults />
+    </Suspense>
+  );
+}
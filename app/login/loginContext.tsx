@@ -6,6 +6,8 @@ import { useState, useEffect } from "react"
 import Link from "next/link"
 import { useRouter, useSearchParams } from "next/navigation"
 import { ArrowLeft } from "lucide-react"
+import { api, ApiError } from "@/lib/api"
+import { getSafeRedirect, storeSession } from "@/lib/session"
 
 export default function LoginPage() {
   const router = useRouter()
@@ -41,19 +43,7 @@ export default function LoginPage() {
 
   const checkDataFetchStatus = async (email: string) => {
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/data-fetch-status-by-email`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email }),
-      })
-
-      if (!response.ok) {
-        throw new Error("Failed to check data fetch status")
-      }
-
-      const result = await response.json()
+      const result = await api.getDataFetchStatusByEmail(email)
 
       if (result.status === "completed") {
         setIsCheckingStatus(false)
@@ -75,20 +65,7 @@ export default function LoginPage() {
 
   const checkEmailVerification = async (email: string) => {
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/check-email-verification`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email }),
-      })
-
-      const result = await response.json()
-
-      if (response.ok) {
-        return result.verified
-      }
-      return true // Default to true if we can't check
+      return await api.checkEmailVerification(email)
     } catch (error) {
       console.error("Error checking email verification:", error)
       return true // Default to true if we can't check
@@ -143,42 +120,28 @@ export default function LoginPage() {
         return
       }
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(formData),
-      })
-
-      const result = await response.json()
-
-      if (!response.ok) {
-        // Check if this is a "data still fetching" error
-        if (result.dataFetchStatus === "pending") {
-          localStorage.setItem("pendingLoginEmail", formData.email)
-          setIsCheckingStatus(true)
-          setErrors({
-            email: "",
-            password: "",
-            general: "Your account is still being set up. Please wait a moment before signing in.",
-          })
-          // Start checking status
-          checkDataFetchStatus(formData.email)
-          setIsLoading(false)
-          return
-        }
-
-        throw new Error(result.message || "Invalid credentials")
-      }
+      const result = await api.login(formData)
 
       // Store token and user data in localStorage
-      localStorage.setItem("token", result.token)
-      localStorage.setItem("user", JSON.stringify(result.user))
+      await storeSession(result)
 
-      // Redirect to dashboard
-      router.push("/dashboard")
+      // Return to the page the user was on when their session expired, or the dashboard
+      router.push(getSafeRedirect(searchParams.get("redirect")) || "/dashboard")
     } catch (error) {
+      // Check if this is a "data still fetching" error
+      if (error instanceof ApiError && error.data.dataFetchStatus === "pending") {
+        localStorage.setItem("pendingLoginEmail", formData.email)
+        setIsCheckingStatus(true)
+        setErrors({
+          email: "",
+          password: "",
+          general: "Your account is still being set up. Please wait a moment before signing in.",
+        })
+        // Start checking status
+        checkDataFetchStatus(formData.email)
+        return
+      }
+
       console.error("Login error:", error)
       setErrors((prev) => ({
         ...prev,
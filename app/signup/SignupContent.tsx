@@ -6,6 +6,9 @@ import { useRouter, useSearchParams } from "next/navigation"
 import { toast } from "react-hot-toast"
 import { Eye, EyeOff, ArrowRight, CheckCircle, Loader2 } from "lucide-react"
 import Link from "next/link"
+import { api } from "@/lib/api"
+import { storeSession } from "@/lib/session"
+import { validateProfile } from "@/lib/validation"
 
 export default function SignupContent() {
   const router = useRouter()
@@ -64,12 +67,7 @@ export default function SignupContent() {
     return null
   }
 
-  const validateStep2 = () => {
-    if (!formData.zipCode.trim()) return "ZIP code is required"
-    if (!/^\d{5}(-\d{4})?$/.test(formData.zipCode)) return "Invalid ZIP code format"
-    if (!formData.shoppingStyle) return "Please select your shopping style"
-    return null
-  }
+  const validateStep2 = () => validateProfile(formData)
 
   const handleNextStep = () => {
     const error = validateStep1()
@@ -89,28 +87,16 @@ export default function SignupContent() {
 
     setLoading(true)
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/register`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          firstName: formData.firstName,
-          lastName: formData.lastName,
-          email: formData.email,
-          password: formData.password,
-          zipCode: formData.zipCode,
-          shoppingStyle: formData.shoppingStyle,
-          phoneNumber: formData.phoneNumber || undefined,
-        }),
+      const data = await api.register({
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        email: formData.email,
+        password: formData.password,
+        zipCode: formData.zipCode,
+        shoppingStyle: formData.shoppingStyle,
+        phoneNumber: formData.phoneNumber || undefined,
       })
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.message || "Failed to create account")
-      }
-
       if (data.token) {
         localStorage.setItem("pendingToken", data.token)
         setUserId(data.user._id)
@@ -148,30 +134,10 @@ export default function SignupContent() {
 
     try {
       // Verify the email with the code
-      const verifyResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/verify-email`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email: formData.email,
-          code: verificationCode,
-        }),
-      })
-
-      if (!verifyResponse.ok) {
-        const errorData = await verifyResponse.json()
-        throw new Error(errorData.message || "Invalid verification code")
-      }
-
-      const verifyData = await verifyResponse.json()
+      const verifyData = await api.verifyEmail(formData.email, verificationCode)
 
-      // Get the token from the verification response
-      const token = verifyData.token
-
-      // Store the login token and user data
-      localStorage.setItem("token", token)
-      localStorage.setItem("user", JSON.stringify(verifyData.user))
+      // Store the login token and user data from the verification response
+      await storeSession(verifyData)
 
       // Show data loading screen
       setLoading(false)
@@ -189,7 +155,7 @@ export default function SignupContent() {
         // If for some reason we don't have the user ID, redirect after a delay
         setTimeout(() => {
           setDataLoading(false)
-          router.push("/login")
+          router.push("/dashboard")
         }, 10000)
       }
     } catch (error) {
@@ -204,21 +170,7 @@ export default function SignupContent() {
     try {
       const email = emailOverride || formData.email
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/resend-verification`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email,
-        }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.message || "Failed to resend verification code")
-      }
+      const data = await api.resendVerification(email)
 
       if (data.code) {
         if (process.env.NODE_ENV === "development" && process.env.NEXT_PUBLIC_DEBUG_VERIFICATION === "true") {
@@ -239,35 +191,29 @@ export default function SignupContent() {
   // Add the missing checkDataLoadingStatus function after the handleResendCode function
   const checkDataLoadingStatus = async (userId: string) => {
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/users/data-fetch-status/${userId}`)
-
-      if (!response.ok) {
-        throw new Error("Failed to check data loading status")
-      }
-
-      const data = await response.json()
+      const data = await api.getDataFetchStatus(userId)
 
       setDataLoadingProgress(data.progress || 0)
       setDataLoadingMessage(data.message || "Setting up your account...")
 
-      if (data.status === "completed" || data.progress >= 100) {
+      if (data.status === "completed" || (data.progress ?? 0) >= 100) {
         setDataLoading(false)
         toast.success("Your account is ready!")
-        router.push("/login?message=Your account is ready! You can now sign in.")
+        router.push("/dashboard")
       } else if (data.status === "failed") {
         setDataLoading(false)
-        toast.error("There was an issue setting up your account. You can still sign in.")
-        router.push("/login?message=There was an issue setting up your account. You can still sign in.")
+        toast.error("There was an issue setting up your account. Some of your data may be missing.")
+        router.push("/dashboard")
       } else {
         // Continue checking status
         setTimeout(() => checkDataLoadingStatus(userId), 2000)
       }
     } catch (error) {
       console.error("Error checking data loading status:", error)
-      // If there's an error, we'll still redirect to login after a delay
+      // The session is already stored, so go on to the dashboard after a delay
       setTimeout(() => {
         setDataLoading(false)
-        router.push("/login")
+        router.push("/dashboard")
       }, 5000)
     }
   }
@@ -0,0 +1,370 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { getDefaultExpiry, parseDate, toDateInputValue } from "@/lib/expiry";
+import { PANTRY_CATEGORIES } from "@/lib/pantry";
+import type { NewPantryItem, ProductType, StorageLocation } from "@/lib/types";
+
+interface AddPantryItemModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called with the form's values, which are the item's new values when
+  // editing. The form stays busy until a returned promise settles.
+  onAdd: (item: NewPantryItem) => void | Promise<unknown>;
+  // Offered as places to put the item; the field is hidden when empty
+  storageLocations?: StorageLocation[];
+  // An existing pantry item to edit instead of adding a new one. The form
+  // starts from its values, so remount the modal (with a key) per item.
+  item?: ProductType | null;
+}
+
+const NO_STORAGE_LOCATIONS: StorageLocation[] = [];
+
+// Add New Pantry Item Modal Component
+export default function AddPantryItemModal({
+  isOpen,
+  onClose,
+  onAdd,
+  storageLocations = NO_STORAGE_LOCATIONS,
+  item = null,
+}: AddPantryItemModalProps) {
+  const [name, setName] = useState(item?.name ?? "");
+  const [category, setCategory] = useState(item?.category || "Pantry");
+  const [type, setType] = useState(item?.type || "Store Brand");
+  const [size, setSize] = useState(item?.size ?? "");
+  const [unit, setUnit] = useState(item?.unit || "each");
+  const [quantity, setQuantity] = useState(item?.quantity ?? 1);
+  const [purchasedAt, setPurchasedAt] = useState(() =>
+    item ? (item.purchasedAt ?? "") : toDateInputValue(new Date())
+  );
+  // Follows the category's default until the user picks a date. An edited
+  // item keeps the date it has, even if that's none.
+  const [expiresAt, setExpiresAt] = useState<string | null>(
+    item ? (item.expiresAt ?? "") : null
+  );
+  const [storageLocationId, setStorageLocationId] = useState(
+    item?.storageLocationId ?? ""
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const defaultExpiry = getDefaultExpiry(
+    category,
+    parseDate(purchasedAt) ?? new Date()
+  );
+  const expiryValue =
+    expiresAt ?? (defaultExpiry ? toDateInputValue(defaultExpiry) : "");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    // Validate form
+    if (!name.trim()) {
+      toast.error("Please enter a name for the item");
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Submit form
+    try {
+      await onAdd({
+        name,
+        category,
+        type,
+        size,
+        unit,
+        quantity,
+        purchasedAt: purchasedAt || undefined,
+        expiresAt: expiryValue || undefined,
+        storageLocationId: storageLocationId || undefined,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+    if (item) return;
+
+    // Reset form (this will happen after onAdd completes)
+    setName("");
+    setCategory("Pantry");
+    setType("Store Brand");
+    setSize("");
+    setUnit("each");
+    setQuantity(1);
+    setPurchasedAt(toDateInputValue(new Date()));
+    setExpiresAt(null);
+    setStorageLocationId("");
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 transition-opacity" aria-hidden="true">
+          <div className="absolute inset-0 bg-gray-500 opacity-75"></div>
+        </div>
+
+        <span
+          className="hidden sm:inline-block sm:align-middle sm:h-screen"
+          aria-hidden="true"
+        >
+          &#8203;
+        </span>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="sm:flex sm:items-start">
+              <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
+                <h3 className="text-lg leading-6 font-medium text-gray-900">
+                  {item ? "Edit Pantry Item" : "Add New Pantry Item"}
+                </h3>
+                <div className="mt-4">
+                  <form onSubmit={handleSubmit}>
+                    <div className="mb-4">
+                      <label
+                        htmlFor="name"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Item Name *
+                      </label>
+                      <input
+                        type="text"
+                        id="name"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        required
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <label
+                          htmlFor="category"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Category
+                        </label>
+                        <select
+                          id="category"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={category}
+                          onChange={(e) => setCategory(e.target.value)}
+                        >
+                          {PANTRY_CATEGORIES.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div>
+                        <label
+                          htmlFor="type"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Type
+                        </label>
+                        <select
+                          id="type"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={type}
+                          onChange={(e) => setType(e.target.value)}
+                        >
+                          <option value="Store Brand">Store Brand</option>
+                          <option value="Name Brand">Name Brand</option>
+                          <option value="Organic">Organic</option>
+                          <option value="Bulk">Bulk</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <label
+                          htmlFor="size"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Size
+                        </label>
+                        <input
+                          type="text"
+                          id="size"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={size}
+                          onChange={(e) => setSize(e.target.value)}
+                          placeholder="e.g. 16 oz"
+                        />
+                      </div>
+
+                      <div>
+                        <label
+                          htmlFor="unit"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Unit
+                        </label>
+                        <select
+                          id="unit"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={unit}
+                          onChange={(e) => setUnit(e.target.value)}
+                        >
+                          <option value="each">each</option>
+                          <option value="bag">bag</option>
+                          <option value="box">box</option>
+                          <option value="can">can</option>
+                          <option value="bottle">bottle</option>
+                          <option value="jar">jar</option>
+                          <option value="package">package</option>
+                          <option value="container">container</option>
+                          <option value="bunch">bunch</option>
+                          <option value="lb">lb</option>
+                          <option value="oz">oz</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div className="mb-4">
+                      <label
+                        htmlFor="quantity"
+                        className="block text-sm font-medium text-gray-700"
+                      >
+                        Quantity
+                      </label>
+                      <input
+                        type="number"
+                        id="quantity"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                        value={quantity}
+                        onChange={(e) => setQuantity(Number(e.target.value))}
+                        min={item ? "0" : "1"}
+                      />
+                    </div>
+
+                    {storageLocations.length > 0 && (
+                      <div className="mb-4">
+                        <label
+                          htmlFor="storageLocation"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Kept in
+                        </label>
+                        <select
+                          id="storageLocation"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={storageLocationId}
+                          onChange={(e) => setStorageLocationId(e.target.value)}
+                        >
+                          <option value="">Not put away</option>
+                          {storageLocations.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div>
+                        <label
+                          htmlFor="purchasedAt"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Purchased
+                        </label>
+                        <input
+                          type="date"
+                          id="purchasedAt"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={purchasedAt}
+                          max={toDateInputValue(new Date())}
+                          onChange={(e) => setPurchasedAt(e.target.value)}
+                        />
+                      </div>
+
+                      <div>
+                        <label
+                          htmlFor="expiresAt"
+                          className="block text-sm font-medium text-gray-700"
+                        >
+                          Best by
+                        </label>
+                        <input
+                          type="date"
+                          id="expiresAt"
+                          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+                          value={expiryValue}
+                          onChange={(e) => setExpiresAt(e.target.value)}
+                        />
+                        {expiresAt === null && (
+                          <p className="mt-1 text-xs text-gray-500">
+                            {defaultExpiry
+                              ? `Typical for ${category.toLowerCase()}`
+                              : "Doesn't expire"}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </form>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:ml-3 sm:w-auto sm:text-sm"
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <svg
+                    className="animate-spin -ml-1 mr-2 h-4 w-4 text-white"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  {item ? "Saving..." : "Adding..."}
+                </>
+              ) : item ? (
+                "Save Changes"
+              ) : (
+                "Add Item"
+              )}
+            </button>
+            <button
+              type="button"
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm"
+              onClick={onClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { AlertTriangle, Pencil } from "lucide-react";
+import {
+  summarizeBudget,
+  unallocated,
+  type BudgetStatus,
+  type EnvelopeSummary,
+} from "@/lib/budget";
+import { PANTRY_CATEGORIES } from "@/lib/pantry";
+import type { Budget, ProductType, Purchase } from "@/lib/types";
+
+interface BudgetWidgetProps {
+  // Null until the user sets one
+  budget: Budget | null;
+  purchases: Purchase[];
+  listItems: ProductType[];
+  pantryItems: ProductType[];
+  // Resolves to true when saved, which closes the form
+  onSave: (budget: Budget) => Promise<boolean>;
+}
+
+const STATUS_COLORS: Record<BudgetStatus, { spent: string; text: string }> = {
+  ok: { spent: "bg-green-500", text: "text-gray-600" },
+  atRisk: { spent: "bg-amber-500", text: "text-amber-700" },
+  over: { spent: "bg-red-500", text: "text-red-700" },
+};
+
+const formatDollars = (amount: number) => `$${amount.toFixed(2)}`;
+
+/**
+ * Spent and planned as a bar against the limit. Spend past the limit fills
+ * the whole bar.
+ */
+function EnvelopeBar({ envelope }: { envelope: EnvelopeSummary }) {
+  const share = (amount: number) =>
+    envelope.limit > 0 ? Math.min(100, (amount / envelope.limit) * 100) : 100;
+  const spentWidth = share(envelope.spent);
+  const plannedWidth = Math.min(100 - spentWidth, share(envelope.planned));
+  const colors = STATUS_COLORS[envelope.status];
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-medium text-gray-800">{envelope.category}</span>
+        <span className={colors.text}>
+          {formatDollars(envelope.spent)} of {formatDollars(envelope.limit)}
+        </span>
+      </div>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className={colors.spent} style={{ width: `${spentWidth}%` }} />
+        <div
+          className="bg-gray-300"
+          style={{ width: `${plannedWidth}%` }}
+          title={`${formatDollars(envelope.planned)} planned on My List`}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The month's grocery spend against the user's budget and its category
+ * envelopes, with a form for setting them
+ */
+export default function BudgetWidget({
+  budget,
+  purchases,
+  listItems,
+  pantryItems,
+  onSave,
+}: BudgetWidgetProps) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing || !budget) {
+    return isEditing ? (
+      <BudgetForm
+        budget={budget}
+        onSave={onSave}
+        onClose={() => setIsEditing(false)}
+      />
+    ) : (
+      <div className="text-center py-6">
+        <p className="text-gray-500">
+          Set a monthly budget to see how your grocery spending is tracking.
+        </p>
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="mt-3 px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700"
+        >
+          Set a budget
+        </button>
+      </div>
+    );
+  }
+
+  const summary = summarizeBudget(budget, purchases, listItems, pantryItems);
+  const { total } = summary;
+  const warnings = [total, ...summary.envelopes].filter(
+    (envelope) => envelope.status !== "ok"
+  );
+
+  return (
+    <div>
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <p className="text-2xl font-semibold text-gray-900">
+            {formatDollars(total.spent)}
+            <span className="text-base font-normal text-gray-500">
+              {" "}
+              of {formatDollars(total.limit)}
+            </span>
+          </p>
+          <p className="text-sm text-gray-500">
+            Day {summary.daysElapsed} of {summary.daysInMonth}
+            {" · "}
+            {formatDollars(total.planned)} planned on My List
+            {" · "}
+            heading for{" "}
+            <span className={STATUS_COLORS[total.status].text}>
+              {formatDollars(total.projected)}
+            </span>
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsEditing(true)}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-green-700"
+        >
+          <Pencil className="h-4 w-4 mr-1" />
+          Edit
+        </button>
+      </div>
+
+      <EnvelopeBar envelope={total} />
+
+      {warnings.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {warnings.map((envelope) => (
+            <div
+              key={envelope.category}
+              className={`flex items-start text-sm p-2 rounded-md ${
+                envelope.status === "over"
+                  ? "bg-red-50 text-red-700"
+                  : "bg-amber-50 text-amber-700"
+              }`}
+            >
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {envelope.status === "over"
+                ? `${envelope.category === "Total" ? "You're" : `${envelope.category} is`} ${formatDollars(envelope.spent - envelope.limit)} over budget.`
+                : `${envelope.category === "Total" ? "Your spending is" : `${envelope.category} is`} on track to go ${formatDollars(envelope.projected - envelope.limit)} over budget this month.`}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.envelopes.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {summary.envelopes.map((envelope) => (
+            <EnvelopeBar key={envelope.category} envelope={envelope} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BudgetForm({
+  budget,
+  onSave,
+  onClose,
+}: {
+  budget: Budget | null;
+  onSave: (budget: Budget) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [monthlyLimit, setMonthlyLimit] = useState(
+    budget ? String(budget.monthlyLimit) : ""
+  );
+  // Blank for categories without an envelope
+  const [envelopes, setEnvelopes] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      PANTRY_CATEGORIES.map((category) => [
+        category,
+        budget?.envelopes[category] ? String(budget.envelopes[category]) : "",
+      ])
+    )
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toAmount = (value: string) => {
+    const amount = Number.parseFloat(value);
+    return isNaN(amount) || amount < 0 ? 0 : amount;
+  };
+  const draft: Budget = {
+    monthlyLimit: toAmount(monthlyLimit),
+    envelopes: Object.fromEntries(
+      Object.entries(envelopes)
+        .map(([category, value]) => [category, toAmount(value)] as const)
+        .filter(([, amount]) => amount > 0)
+    ),
+  };
+  const remaining = unallocated(draft);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.monthlyLimit <= 0) return;
+
+    setIsSaving(true);
+    try {
+      if (await onSave(draft)) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm";
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <label className="block text-sm font-medium text-gray-700 max-w-xs">
+        Monthly budget ($)
+        <input
+          type="number"
+          min="0"
+          step="1"
+          required
+          value={monthlyLimit}
+          onChange={(e) => setMonthlyLimit(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+
+      <p className="mt-4 text-sm text-gray-600">
+        Envelopes (optional). Leave a category blank to track it only against
+        the monthly total.
+      </p>
+      <div className="mt-2 grid grid-cols-2 md:grid-cols-3 gap-3">
+        {PANTRY_CATEGORIES.map((category) => (
+          <label key={category} className="text-sm font-medium text-gray-700">
+            {category}
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={envelopes[category]}
+              onChange={(e) =>
+                setEnvelopes((prev) => ({
+                  ...prev,
+                  [category]: e.target.value,
+                }))
+              }
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+      <p
+        className={`mt-3 text-sm ${remaining < 0 ? "text-red-600" : "text-gray-500"}`}
+      >
+        {remaining < 0
+          ? `Envelopes add up to ${formatDollars(-remaining)} more than the monthly budget`
+          : `${formatDollars(remaining)} not in an envelope`}
+      </p>
+
+      <div className="mt-4 flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || draft.monthlyLimit <= 0}
+          className="px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : "Save budget"}
+        </button>
+      </div>
+    </form>
+  );
+}
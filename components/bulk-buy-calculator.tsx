@@ -1,8 +1,20 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Calculator, DollarSign, ShoppingBag, TrendingDown, Loader2 } from "lucide-react"
+import { AlertTriangle, Calculator, DollarSign, ShoppingBag, TrendingDown, Loader2 } from "lucide-react"
 import { toast } from "react-hot-toast"
+import { api } from "@/lib/api"
+import { findStorageLocationFor, getSpaceLeft } from "@/lib/storage-locations"
+import type { CalculationHistory, ProductType, StorageLocation } from "@/lib/types"
+
+interface BulkBuyCalculatorProps {
+  // Used to warn when the recommended amount won't fit where it would be kept
+  storageLocations?: StorageLocation[]
+  pantryItems?: ProductType[]
+}
+
+const NO_STORAGE_LOCATIONS: StorageLocation[] = []
+const NO_PANTRY_ITEMS: ProductType[] = []
 
 type CalculationResult = {
   optimalQuantity: number
@@ -13,22 +25,10 @@ type CalculationResult = {
   regularPrice: number
 }
 
-type CalculationHistory = {
-  id: string
-  itemName: string
-  pricePerUnit: number
-  bulkQuantity: number
-  bulkPrice: number
-  monthlyUsage: number
-  recommendedQuantity: number
-  savingsPercentage: number
-  savingsAmount: number
-  timeframe: number
-  createdAt: string
-  message: string
-}
-
-export default function BulkBuyCalculator() {
+export default function BulkBuyCalculator({
+  storageLocations = NO_STORAGE_LOCATIONS,
+  pantryItems = NO_PANTRY_ITEMS,
+}: BulkBuyCalculatorProps) {
   const [item, setItem] = useState("")
   const [pricePerUnit, setPricePerUnit] = useState("")
   const [bulkQuantity, setBulkQuantity] = useState("")
@@ -41,6 +41,13 @@ export default function BulkBuyCalculator() {
   const [shelfLife, setShelfLife] = useState("12") // Default shelf life in months
   const [calculationHistory, setCalculationHistory] = useState<CalculationHistory[]>([])
   const [historyLoading, setHistoryLoading] = useState(false)
+  // Empty to use wherever this item is already kept
+  const [storageLocationId, setStorageLocationId] = useState("")
+
+  const storageLocation = storageLocationId
+    ? (storageLocations.find((location) => location.id === storageLocationId) ?? null)
+    : findStorageLocationFor(item, pantryItems, storageLocations)
+  const spaceLeft = storageLocation ? getSpaceLeft(storageLocation, pantryItems) : null
 
   // Fetch calculation history on component mount
   useEffect(() => {
@@ -50,21 +57,9 @@ export default function BulkBuyCalculator() {
   const fetchCalculationHistory = async () => {
     try {
       setHistoryLoading(true)
-      const token = localStorage.getItem("token")
-      if (!token) return
+      if (!localStorage.getItem("token")) return
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/bulk-buy/history`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch calculation history")
-      }
-
-      const data = await response.json()
-      setCalculationHistory(data.calculations || [])
+      setCalculationHistory(await api.getBulkBuyHistory())
     } catch (error) {
       console.error("Error fetching calculation history:", error)
     } finally {
@@ -111,41 +106,26 @@ export default function BulkBuyCalculator() {
     setLoading(true)
 
     try {
-      const token = localStorage.getItem("token")
-      if (!token) {
+      if (!localStorage.getItem("token")) {
         throw new Error("You must be logged in to use this feature")
       }
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/bulk-buy/calculate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          itemName: item,
-          pricePerUnit: pricePerUnitNum,
-          unit: "", // Optional
-          monthlyUsage: monthlyUsageNum,
-          timeframe: shelfLifeNum,
-          bulkQuantity: bulkQuantityNum,
-          bulkPrice: bulkPriceNum,
-        }),
+      const calculation = await api.calculateBulkBuy({
+        itemName: item,
+        pricePerUnit: pricePerUnitNum,
+        unit: "", // Optional
+        monthlyUsage: monthlyUsageNum,
+        timeframe: shelfLifeNum,
+        bulkQuantity: bulkQuantityNum,
+        bulkPrice: bulkPriceNum,
       })
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.message || "Failed to calculate savings")
-      }
-
-      const data = await response.json()
-
       // Set the result
       setResult({
-        optimalQuantity: data.calculation.recommendedQuantity,
-        totalSavings: data.calculation.savingsAmount,
-        savingsPercentage: data.calculation.savingsPercentage,
-        monthsSupply: data.calculation.timeframe,
+        optimalQuantity: calculation.recommendedQuantity,
+        totalSavings: calculation.savingsAmount,
+        savingsPercentage: calculation.savingsPercentage,
+        monthsSupply: calculation.timeframe,
         bulkPrice: bulkPriceNum / bulkQuantityNum,
         regularPrice: pricePerUnitNum,
       })
@@ -326,6 +306,27 @@ export default function BulkBuyCalculator() {
             )}
           </div>
 
+          {storageLocations.length > 0 && (
+            <div>
+              <label htmlFor="storageLocation" className="block text-sm font-medium text-gray-700">
+                Where It Will Be Kept
+              </label>
+              <select
+                id="storageLocation"
+                value={storageLocationId}
+                onChange={(e) => setStorageLocationId(e.target.value)}
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+              >
+                <option value="">Where it's kept now</option>
+                {storageLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {error && <div className="text-red-600 text-sm">{error}</div>}
 
           <div className="flex space-x-3">
@@ -384,6 +385,16 @@ export default function BulkBuyCalculator() {
                 </div>
               </div>
 
+              {storageLocation && spaceLeft !== null && result.optimalQuantity > spaceLeft && (
+                <div className="mt-3 flex items-start p-3 rounded-md bg-amber-50 border border-amber-100 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                  <p>
+                    {storageLocation.name} only has room for about {Math.max(0, spaceLeft)} more, so{" "}
+                    {result.optimalQuantity} units won't fit. Make space or buy less.
+                  </p>
+                </div>
+              )}
+
               <div className="mt-3 text-sm text-gray-600">
                 <p>
                   Regular price: ${result.regularPrice.toFixed(2)} per unit
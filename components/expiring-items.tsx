@@ -0,0 +1,99 @@
+"use client";
+
+import { AlertTriangle, Trash2 } from "lucide-react";
+import {
+  EXPIRING_SOON_DAYS,
+  daysUntilExpiry,
+  describeExpiry,
+  getExpiringItems,
+  getWaste,
+  WASTE_WINDOW_DAYS,
+  type WasteEntry,
+} from "@/lib/expiry";
+import type { ProductType, Purchase } from "@/lib/types";
+
+interface ExpiringItemsProps {
+  pantryItems: ProductType[];
+  // Used to value expired stock at what was paid for it
+  purchases: Purchase[];
+  // Expired stock removed from the pantry, which still counts as waste
+  thrownOut?: WasteEntry[];
+}
+
+const NOTHING_THROWN_OUT: WasteEntry[] = [];
+
+/**
+ * Pantry items past or near their best-by date, and what the expired ones
+ * are worth
+ */
+export default function ExpiringItems({
+  pantryItems,
+  purchases,
+  thrownOut = NOTHING_THROWN_OUT,
+}: ExpiringItemsProps) {
+  const expiring = getExpiringItems(pantryItems);
+  const waste = getWaste(pantryItems, purchases, thrownOut);
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="bg-amber-50 p-3 rounded-lg">
+          <div className="text-sm text-amber-700">
+            Expiring in {EXPIRING_SOON_DAYS} days
+          </div>
+          <div className="text-xl font-semibold text-amber-800">
+            {expiring.length - waste.items.length}
+          </div>
+        </div>
+        <div
+          className="bg-red-50 p-3 rounded-lg"
+          title={`Expired stock in your pantry, and what you threw out in the last ${WASTE_WINDOW_DAYS} days`}
+        >
+          <div className="text-sm text-red-700 flex items-center">
+            <Trash2 className="h-4 w-4 mr-1" />
+            Wasted stock
+          </div>
+          <div className="text-xl font-semibold text-red-800">
+            ${waste.value.toFixed(2)}
+            <span className="ml-2 text-sm font-normal">
+              {waste.units} {waste.units === 1 ? "item" : "items"}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {expiring.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {expiring.map((item) => {
+            const days = daysUntilExpiry(item) ?? 0;
+            return (
+              <li
+                key={item.id}
+                className="flex items-center justify-between py-2"
+              >
+                <div className="flex items-center">
+                  <AlertTriangle
+                    className={`h-4 w-4 mr-2 ${days < 0 ? "text-red-600" : "text-amber-500"}`}
+                  />
+                  <span className="font-medium">{item.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    Qty: {item.quantity ?? 1}
+                  </span>
+                </div>
+                <span
+                  className={`text-sm ${days < 0 ? "text-red-700" : "text-amber-700"}`}
+                >
+                  {describeExpiry(days)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-center text-sm text-gray-500 py-4">
+          Nothing in your pantry is expiring soon.
+        </p>
+      )}
+    </div>
+  );
+}
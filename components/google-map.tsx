@@ -1,6 +1,13 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import {
+  getCheapestItemsAtStore,
+  getHoursForDay,
+  getStorePosition,
+} from "@/lib/stores";
+import type { StoreMapProps } from "@/components/store-map";
+import type { ProductType, StoreType } from "@/lib/types";
 
 declare global {
   interface Window {
@@ -8,18 +15,83 @@ declare global {
   }
 }
 
-interface GoogleMapProps {
-  zipCode: string;
-  height?: string;
-  width?: string;
-}
+// Stable defaults so the marker effect doesn't rerun on every render
+const NO_STORES: StoreType[] = [];
+const NO_ITEMS: ProductType[] = [];
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        "&": "&amp;",
+        "<": "&lt;",
+        ">": "&gt;",
+        '"': "&quot;",
+        "'": "&#39;",
+      })[char] as string
+  );
+
+/**
+ * Info window content for a store marker. Google Maps takes an HTML string,
+ * so everything from the API is escaped.
+ */
+const renderStoreInfo = (store: StoreType, listItems: ProductType[]) => {
+  const todaysHours = getHoursForDay(store);
+  const cheapestItems = getCheapestItemsAtStore(store, listItems);
+  const details = [
+    store.rating ? `&#9733; ${store.rating}` : null,
+    store.priceLevel ? "$".repeat(store.priceLevel) : null,
+  ].filter(Boolean);
+
+  return `
+    <div style="max-width: 240px; font-size: 13px; line-height: 1.4">
+      <p style="font-weight: 600">${escapeHtml(store.name)}</p>
+      <p style="color: #6b7280">${escapeHtml(store.address.formattedAddress)}</p>
+      ${details.length > 0 ? `<p style="margin-top: 4px">${details.join(" &middot; ")}</p>` : ""}
+      <p style="margin-top: 4px">${
+        todaysHours
+          ? `Today: ${escapeHtml(todaysHours)}`
+          : '<span style="color: #6b7280">Hours not listed</span>'
+      }</p>
+      ${
+        store.website
+          ? `<a href="${escapeHtml(store.website)}" target="_blank" rel="noopener noreferrer" style="color: #16a34a">Website</a>`
+          : ""
+      }
+      <p style="margin-top: 8px; font-weight: 500">Cheapest here from your list</p>
+      ${
+        cheapestItems.length > 0
+          ? `<ul style="margin-top: 2px">${cheapestItems
+              .map(
+                (item) =>
+                  `<li>${escapeHtml(item.name)}: $${item.lowestPrice?.price.toFixed(2)}</li>`
+              )
+              .join("")}</ul>`
+          : '<p style="color: #6b7280">None of your list items are cheapest here.</p>'
+      }
+    </div>
+  `;
+};
 
 export default function GoogleMap({
   zipCode,
   height = "300px",
   width = "100%",
-}: GoogleMapProps) {
+  stores = NO_STORES,
+  listItems = NO_ITEMS,
+  focusedStoreId = null,
+  onStoreSelect,
+}: StoreMapProps) {
   const mapRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<any>(null);
+  const markersRef = useRef<Map<string, any>>(new Map());
+  const infoWindowRef = useRef<any>(null);
+  // Read through refs, so editing the list doesn't rebuild every marker
+  const listItemsRef = useRef(listItems);
+  const onStoreSelectRef = useRef(onStoreSelect);
+  // The store whose info window was opened last
+  const openStoreRef = useRef<StoreType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,7 +115,7 @@ export default function GoogleMap({
 
       // Use Geocoding API to convert ZIP code to coordinates
       const geocoder = new (window as any).google.maps.Geocoder();
-      geocoder.geocode({ address: zipCode }, (results, status) => {
+      geocoder.geocode({ address: zipCode }, (results: any, status: string) => {
         if (status === "OK" && results && results[0]) {
           const location = results[0].geometry.location;
           const map = new (window as any).google.maps.Map(mapRef.current, {
@@ -54,13 +126,24 @@ export default function GoogleMap({
             fullscreenControl: false,
           });
 
-          // Add a marker for the ZIP code location
+          // Add a marker for the ZIP code location, drawn as a dot so it
+          // stands apart from the store pins
           new (window as any).google.maps.Marker({
             position: location,
             map,
             title: `ZIP Code: ${zipCode}`,
+            icon: {
+              path: (window as any).google.maps.SymbolPath.CIRCLE,
+              scale: 7,
+              fillColor: "#2563eb",
+              fillOpacity: 1,
+              strokeColor: "#ffffff",
+              strokeWeight: 2,
+            },
           });
 
+          infoWindowRef.current = new (window as any).google.maps.InfoWindow();
+          setMap(map);
           setIsLoading(false);
         } else {
           setError(`Could not find location for ZIP code: ${zipCode}`);
@@ -90,6 +173,73 @@ export default function GoogleMap({
     };
   }, [zipCode]);
 
+  const openStoreInfo = (store: StoreType, marker: any) => {
+    if (!infoWindowRef.current) return;
+    openStoreRef.current = store;
+    infoWindowRef.current.setContent(
+      renderStoreInfo(store, listItemsRef.current)
+    );
+    infoWindowRef.current.open({ anchor: marker, map });
+  };
+
+  useEffect(() => {
+    onStoreSelectRef.current = onStoreSelect;
+  }, [onStoreSelect]);
+
+  // Keep the info window's list prices in step with the list
+  useEffect(() => {
+    listItemsRef.current = listItems;
+    if (openStoreRef.current && infoWindowRef.current) {
+      infoWindowRef.current.setContent(
+        renderStoreInfo(openStoreRef.current, listItems)
+      );
+    }
+  }, [listItems]);
+
+  // One marker per store, with the view widened to fit them all
+  useEffect(() => {
+    if (!map) return;
+
+    const markers = new Map<string, any>();
+    const bounds = new (window as any).google.maps.LatLngBounds();
+    bounds.extend(map.getCenter());
+
+    stores.forEach((store) => {
+      const marker = new (window as any).google.maps.Marker({
+        position: getStorePosition(store),
+        map,
+        title: store.name,
+      });
+      marker.addListener("click", () => {
+        openStoreInfo(store, marker);
+        onStoreSelectRef.current?.(store._id);
+      });
+      markers.set(store._id, marker);
+      bounds.extend(marker.getPosition());
+    });
+
+    if (markers.size > 0) {
+      map.fitBounds(bounds);
+    }
+    markersRef.current = markers;
+
+    return () => {
+      markers.forEach((marker) => marker.setMap(null));
+    };
+  }, [map, stores]);
+
+  useEffect(() => {
+    if (!map || !focusedStoreId) return;
+
+    const marker = markersRef.current.get(focusedStoreId);
+    const store = stores.find((store) => store._id === focusedStoreId);
+    if (!marker || !store) return;
+
+    map.panTo(marker.getPosition());
+    map.setZoom(Math.max(map.getZoom(), 14));
+    openStoreInfo(store, marker);
+  }, [map, focusedStoreId, stores]);
+
   if (error) {
     return (
       <div
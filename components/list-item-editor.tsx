@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import type { ListItemUpdate, ProductType, StoreType } from "@/lib/types";
+
+interface ListItemEditorProps {
+  item: ProductType;
+  // Offered as preferred stores
+  stores: StoreType[];
+  // Resolves once saved or rolled back
+  onChange: (productId: string, changes: ListItemUpdate) => Promise<unknown>;
+}
+
+const MAX_QUANTITY = 99;
+
+/**
+ * Quantity stepper, notes and preferred store for a My List entry
+ */
+export default function ListItemEditor({
+  item,
+  stores,
+  onChange,
+}: ListItemEditorProps) {
+  const quantity = item.quantity || 1;
+  const [notes, setNotes] = useState(item.notes ?? "");
+  // The stepper and store wait for the last change, so saves can't finish
+  // out of order and a failed one can't roll back over a later one
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pick up the saved value again if the change was rolled back
+  useEffect(() => {
+    setNotes(item.notes ?? "");
+  }, [item.notes]);
+
+  const save = async (changes: ListItemUpdate) => {
+    setIsSaving(true);
+    try {
+      await onChange(item.id, changes);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveNotes = () => {
+    const trimmed = notes.trim();
+    if (trimmed !== (item.notes ?? "")) {
+      save({ notes: trimmed });
+    }
+  };
+
+  // The saved store may be from another location's list of stores
+  const storeNames = Array.from(
+    new Set([
+      ...stores.map((store) => store.name),
+      ...(item.preferredStore ? [item.preferredStore] : []),
+    ])
+  );
+
+  return (
+    <div className="space-y-2 mb-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-700">Quantity</span>
+        <div className="inline-flex items-center border border-gray-300 rounded-md">
+          <button
+            type="button"
+            onClick={() => save({ quantity: quantity - 1 })}
+            disabled={isSaving || quantity <= 1}
+            className="p-1 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            aria-label={`Decrease quantity of ${item.name}`}
+          >
+            <Minus className="h-4 w-4" />
+          </button>
+          <span className="w-8 text-center font-medium">{quantity}</span>
+          <button
+            type="button"
+            onClick={() => save({ quantity: quantity + 1 })}
+            disabled={isSaving || quantity >= MAX_QUANTITY}
+            className="p-1 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+            aria-label={`Increase quantity of ${item.name}`}
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <select
+        value={item.preferredStore ?? ""}
+        onChange={(e) => save({ preferredStore: e.target.value })}
+        disabled={isSaving}
+        aria-label={`Preferred store for ${item.name}`}
+        className="block w-full border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+      >
+        <option value="">Any store</option>
+        {storeNames.map((name) => (
+          <option key={name} value={name}>
+            {name}
+          </option>
+        ))}
+      </select>
+
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={saveNotes}
+        rows={2}
+        maxLength={200}
+        placeholder="Notes, e.g. get the low-sodium one"
+        aria-label={`Notes for ${item.name}`}
+        className="block w-full border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+      />
+    </div>
+  );
+}
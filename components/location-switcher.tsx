@@ -0,0 +1,167 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { Check, ChevronDown, MapPin, Plus, Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { validateZipCode } from "@/lib/validation";
+import type { SavedLocation } from "@/lib/types";
+
+interface LocationSwitcherProps {
+  locations: SavedLocation[];
+  // null while the profile ZIP code is in use
+  activeLocation: SavedLocation | null;
+  profileZipCode: string;
+  onSwitch: (location: SavedLocation | null) => void;
+  // Resolves to true when the location was saved
+  onAdd: (name: string, zipCode: string) => Promise<boolean>;
+  onRemove: (locationId: string) => void;
+  align?: "left" | "right";
+}
+
+export default function LocationSwitcher({
+  locations,
+  activeLocation,
+  profileZipCode,
+  onSwitch,
+  onAdd,
+  onRemove,
+  align = "right",
+}: LocationSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [zipCode, setZipCode] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+
+  const handleSwitch = (location: SavedLocation | null) => {
+    setIsOpen(false);
+    if (location?.id !== activeLocation?.id) {
+      onSwitch(location);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("Please enter a name for the location");
+      return;
+    }
+    const trimmedZip = zipCode.trim();
+    const zipError = validateZipCode(trimmedZip);
+    if (zipError) {
+      toast.error(zipError);
+      return;
+    }
+
+    setIsAdding(true);
+    if (await onAdd(name.trim(), trimmedZip)) {
+      setName("");
+      setZipCode("");
+    }
+    setIsAdding(false);
+  };
+
+  const optionClassName = (isActive: boolean) =>
+    `flex-1 flex items-center text-left px-2 py-1.5 rounded-md text-sm ${
+      isActive ? "text-green-700 bg-green-50" : "text-gray-700 hover:bg-gray-50"
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+      >
+        <MapPin className="h-4 w-4 text-green-600" />
+        <span>
+          {activeLocation
+            ? `${activeLocation.name} (${activeLocation.zipCode})`
+            : profileZipCode}
+        </span>
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute ${
+            align === "right" ? "right-0" : "left-0"
+          } mt-2 w-72 bg-white rounded-md shadow-lg border border-gray-200 z-20 p-2`}
+        >
+          <p className="px-2 pb-1 text-xs font-medium text-gray-500 uppercase">
+            Shopping near
+          </p>
+          <button
+            type="button"
+            onClick={() => handleSwitch(null)}
+            className={`w-full ${optionClassName(!activeLocation)}`}
+          >
+            <span className="flex-1">
+              Profile ZIP code
+              <span className="ml-1 text-gray-500">{profileZipCode}</span>
+            </span>
+            {!activeLocation && <Check className="h-4 w-4" />}
+          </button>
+          {locations.map((location) => {
+            const isActive = activeLocation?.id === location.id;
+            return (
+              <div key={location.id} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => handleSwitch(location)}
+                  className={optionClassName(isActive)}
+                >
+                  <span className="flex-1">
+                    {location.name}
+                    <span className="ml-1 text-gray-500">
+                      {location.zipCode}
+                    </span>
+                  </span>
+                  {isActive && <Check className="h-4 w-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onRemove(location.id)}
+                  className="ml-1 p-1.5 rounded-md text-gray-400 hover:text-red-500 hover:bg-gray-50"
+                >
+                  <span className="sr-only">Delete {location.name}</span>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            );
+          })}
+
+          <form
+            onSubmit={handleAdd}
+            className="mt-2 pt-2 border-t border-gray-100 flex space-x-2"
+          >
+            <input
+              type="text"
+              placeholder="Name, e.g. Office"
+              className="min-w-0 flex-1 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <input
+              type="text"
+              placeholder="ZIP"
+              className="w-20 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+              value={zipCode}
+              onChange={(e) => setZipCode(e.target.value)}
+            />
+            <button
+              type="submit"
+              disabled={isAdding}
+              className="p-1.5 rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            >
+              <span className="sr-only">Save location</span>
+              <Plus className="h-4 w-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useMemo } from "react";
+import { buildPriceMatrix } from "@/lib/price-matrix";
+import type { ProductType, StoreType } from "@/lib/types";
+
+interface PriceMatrixProps {
+  items: ProductType[];
+  stores: StoreType[];
+}
+
+/**
+ * Items as rows, stores as columns, with each row's cheapest price
+ * highlighted and the basket total per store underneath
+ */
+export default function PriceMatrix({ items, stores }: PriceMatrixProps) {
+  const matrix = useMemo(
+    () => buildPriceMatrix(items, stores),
+    [items, stores]
+  );
+
+  if (matrix.stores.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-6 text-center">
+        None of the nearby stores have prices for your list items yet.
+      </p>
+    );
+  }
+
+  // Columns are sorted, so the first store with every item is the cheapest
+  // complete basket
+  const cheapestBasket = matrix.stores.find(
+    (store) => matrix.totals[store._id].missingItems === 0
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th className="sticky left-0 bg-white py-2 pr-4 text-left font-medium text-gray-700">
+              Item
+            </th>
+            {matrix.stores.map((store) => (
+              <th
+                key={store._id}
+                className="py-2 px-3 text-right font-medium text-gray-700 whitespace-nowrap"
+              >
+                {store.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rows.map(({ item, prices, lowestPrice }) => (
+            <tr key={item.id} className="border-b border-gray-100">
+              <td className="sticky left-0 bg-white py-2 pr-4 text-gray-900">
+                {item.name}
+                {(item.quantity || 1) > 1 && (
+                  <span className="text-gray-500"> × {item.quantity}</span>
+                )}
+              </td>
+              {matrix.stores.map((store) => {
+                const price = prices[store._id];
+                const isCheapest = price !== null && price === lowestPrice;
+                return (
+                  <td
+                    key={store._id}
+                    className={`py-2 px-3 text-right ${
+                      isCheapest
+                        ? "bg-green-50 font-medium text-green-700"
+                        : "text-gray-600"
+                    }`}
+                  >
+                    {price === null ? (
+                      <span className="text-gray-300">—</span>
+                    ) : (
+                      `$${price.toFixed(2)}`
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th className="sticky left-0 bg-white py-2 pr-4 text-left font-medium text-gray-900">
+              Basket total
+            </th>
+            {matrix.stores.map((store) => {
+              const { total, missingItems } = matrix.totals[store._id];
+              return (
+                <td
+                  key={store._id}
+                  className={`py-2 px-3 text-right font-medium ${
+                    store === cheapestBasket
+                      ? "text-green-700"
+                      : "text-gray-900"
+                  }`}
+                >
+                  ${total.toFixed(2)}
+                  {missingItems > 0 && (
+                    <span className="block text-xs font-normal text-gray-500">
+                      {missingItems} {missingItems === 1 ? "item" : "items"} not
+                      priced
+                    </span>
+                  )}
+                </td>
+              );
+            })}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContai
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ArrowUpIcon, ArrowDownIcon, TrendingDownIcon, TrendingUpIcon } from "lucide-react"
+import { daysOfStock, describeRunOut } from "@/lib/pantry-forecast"
 
 // Types for the component props and data
 interface PricePoint {
@@ -29,15 +30,33 @@ interface PriceTrendChartProps {
   itemName: string
   priceHistory: PriceHistory
   priceChange: PriceChange
-  currentPrice: number
-  lowestPrice: number
-  highestPrice: number
+  // Prices are null when there is no recent observation
+  currentPrice: number | null
+  lowestPrice: number | null
+  highestPrice: number | null
   storeName?: string
   seasonalLow?: boolean
   buyRecommendation?: boolean
   buyRecommendationReason?: string
+  // What the user paid, from their purchase log. Drawn as its own series.
+  paidPrices?: PricePoint[]
+  // Pantry stock on hand and expected use per month, for a note on how long it lasts
+  quantity?: number
+  monthlyUsage?: number
 }
 
+// One point on the chart. Backend prices and the user's purchases rarely share
+// a date, so each row carries one or the other.
+type ChartRow = {
+  date: string
+  price?: number
+  storeName?: string
+  paid?: number
+  paidStoreName?: string
+}
+
+const toTime = (date: string) => new Date(date).getTime()
+
 export default function PriceTrendChart({
   itemName,
   priceHistory,
@@ -49,18 +68,30 @@ export default function PriceTrendChart({
   seasonalLow = false,
   buyRecommendation = false,
   buyRecommendationReason = "",
+  paidPrices = [],
+  quantity,
+  monthlyUsage,
 }: PriceTrendChartProps) {
   const [activeTab, setActiveTab] = useState("weekly")
   const [chartData, setChartData] = useState<PricePoint[]>([])
 
   // Format price as currency
-  const formatPrice = (price: number) => {
+  const formatPrice = (price: number | null) => {
+    if (price === null) return "Unknown"
     return new Intl.NumberFormat("en-US", {
       style: "currency",
       currency: "USD",
     }).format(price)
   }
 
+  // Header price, with an explicit state when nothing has been observed recently
+  const currentPriceLabel =
+    currentPrice === null ? (
+      <span className="text-sm font-normal text-gray-500">Price unknown</span>
+    ) : (
+      <span className="text-lg font-normal">{formatPrice(currentPrice)}</span>
+    )
+
   // Format percentage with + or - sign
   const formatPercentage = (value: number) => {
     const sign = value >= 0 ? "+" : ""
@@ -89,30 +120,42 @@ export default function PriceTrendChart({
     }
   }, [activeTab, priceHistory])
 
+  // Purchases older than the selected range are left off
+  const rangeStart = chartData.length > 0 ? Math.min(...chartData.map((point) => toTime(point.date))) : 0
+  const visiblePaidPrices = paidPrices.filter((point) => toTime(point.date) >= rangeStart)
+  const chartRows: ChartRow[] = [
+    ...chartData.map(({ date, price, storeName }) => ({ date, price, storeName })),
+    ...visiblePaidPrices.map(({ date, price, storeName }) => ({ date, paid: price, paidStoreName: storeName })),
+  ].sort((a, b) => toTime(a.date) - toTime(b.date))
+
   // Custom tooltip for the chart
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
+      const row: ChartRow = payload[0].payload
       return (
         <div className="bg-white p-3 border border-gray-200 shadow-sm rounded-md">
           <p className="text-sm font-medium">{new Date(label).toLocaleDateString()}</p>
-          <p className="text-sm text-gray-700">Price: {formatPrice(payload[0].value)}</p>
-          {payload[0].payload.storeName && (
-            <p className="text-xs text-gray-500">Store: {payload[0].payload.storeName}</p>
-          )}
+          {row.price !== undefined && <p className="text-sm text-gray-700">Price: {formatPrice(row.price)}</p>}
+          {row.storeName && <p className="text-xs text-gray-500">Store: {row.storeName}</p>}
+          {row.paid !== undefined && <p className="text-sm text-blue-700">You paid: {formatPrice(row.paid)}</p>}
+          {row.paidStoreName && <p className="text-xs text-gray-500">At: {row.paidStoreName}</p>}
         </div>
       )
     }
     return null
   }
 
+  // Without store history, the chart shows just what the user paid
+  const hasHistory = !!priceHistory && !!priceHistory.weekly && priceHistory.weekly.length > 0
+
   // If no price history data is available
-  if (!priceHistory || !priceHistory.weekly || priceHistory.weekly.length === 0) {
+  if (!hasHistory && paidPrices.length === 0) {
     return (
       <Card className="w-full">
         <CardHeader>
           <CardTitle className="flex justify-between items-start">
             <span>{itemName}</span>
-            <span className="text-lg font-normal">{formatPrice(currentPrice)}</span>
+            {currentPriceLabel}
           </CardTitle>
           <CardDescription>No price history available</CardDescription>
         </CardHeader>
@@ -131,53 +174,63 @@ export default function PriceTrendChart({
       <CardHeader>
         <CardTitle className="flex justify-between items-start">
           <span>{itemName} Price Trends</span>
-          <span className="text-lg font-normal">{formatPrice(currentPrice)}</span>
+          {currentPriceLabel}
         </CardTitle>
-        <CardDescription>Current price at {storeName}</CardDescription>
+        <CardDescription>
+          {!hasHistory
+            ? "No store price history yet, so this shows what you paid"
+            : currentPrice === null
+              ? "No recent price observation"
+              : storeName
+                ? `Current price at ${storeName}`
+                : "Current price"}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         {/* Price change indicators */}
-        <div className="grid grid-cols-3 gap-4 mb-6">
-          <div className="bg-gray-50 p-3 rounded-lg">
-            <div className="text-sm text-gray-500">Weekly</div>
-            <div
-              className={`flex items-center font-medium ${priceChange.weekly < 0 ? "text-green-600" : priceChange.weekly > 0 ? "text-red-600" : "text-gray-600"}`}
-            >
-              {priceChange.weekly < 0 ? (
-                <ArrowDownIcon className="h-4 w-4 mr-1" />
-              ) : priceChange.weekly > 0 ? (
-                <ArrowUpIcon className="h-4 w-4 mr-1" />
-              ) : null}
-              {formatPercentage(priceChange.weekly)}
+        {hasHistory && (
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-sm text-gray-500">Weekly</div>
+              <div
+                className={`flex items-center font-medium ${priceChange.weekly < 0 ? "text-green-600" : priceChange.weekly > 0 ? "text-red-600" : "text-gray-600"}`}
+              >
+                {priceChange.weekly < 0 ? (
+                  <ArrowDownIcon className="h-4 w-4 mr-1" />
+                ) : priceChange.weekly > 0 ? (
+                  <ArrowUpIcon className="h-4 w-4 mr-1" />
+                ) : null}
+                {formatPercentage(priceChange.weekly)}
+              </div>
             </div>
-          </div>
-          <div className="bg-gray-50 p-3 rounded-lg">
-            <div className="text-sm text-gray-500">Monthly</div>
-            <div
-              className={`flex items-center font-medium ${priceChange.monthly < 0 ? "text-green-600" : priceChange.monthly > 0 ? "text-red-600" : "text-gray-600"}`}
-            >
-              {priceChange.monthly < 0 ? (
-                <ArrowDownIcon className="h-4 w-4 mr-1" />
-              ) : priceChange.monthly > 0 ? (
-                <ArrowUpIcon className="h-4 w-4 mr-1" />
-              ) : null}
-              {formatPercentage(priceChange.monthly)}
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-sm text-gray-500">Monthly</div>
+              <div
+                className={`flex items-center font-medium ${priceChange.monthly < 0 ? "text-green-600" : priceChange.monthly > 0 ? "text-red-600" : "text-gray-600"}`}
+              >
+                {priceChange.monthly < 0 ? (
+                  <ArrowDownIcon className="h-4 w-4 mr-1" />
+                ) : priceChange.monthly > 0 ? (
+                  <ArrowUpIcon className="h-4 w-4 mr-1" />
+                ) : null}
+                {formatPercentage(priceChange.monthly)}
+              </div>
             </div>
-          </div>
-          <div className="bg-gray-50 p-3 rounded-lg">
-            <div className="text-sm text-gray-500">3 Month</div>
-            <div
-              className={`flex items-center font-medium ${priceChange.threeMonth < 0 ? "text-green-600" : priceChange.threeMonth > 0 ? "text-red-600" : "text-gray-600"}`}
-            >
-              {priceChange.threeMonth < 0 ? (
-                <ArrowDownIcon className="h-4 w-4 mr-1" />
-              ) : priceChange.threeMonth > 0 ? (
-                <ArrowUpIcon className="h-4 w-4 mr-1" />
-              ) : null}
-              {formatPercentage(priceChange.threeMonth)}
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-sm text-gray-500">3 Month</div>
+              <div
+                className={`flex items-center font-medium ${priceChange.threeMonth < 0 ? "text-green-600" : priceChange.threeMonth > 0 ? "text-red-600" : "text-gray-600"}`}
+              >
+                {priceChange.threeMonth < 0 ? (
+                  <ArrowDownIcon className="h-4 w-4 mr-1" />
+                ) : priceChange.threeMonth > 0 ? (
+                  <ArrowUpIcon className="h-4 w-4 mr-1" />
+                ) : null}
+                {formatPercentage(priceChange.threeMonth)}
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         {/* Price insights */}
         {(seasonalLow || buyRecommendation) && (
@@ -196,7 +249,7 @@ export default function PriceTrendChart({
                 </p>
                 <p className="text-sm mt-1">
                   {buyRecommendationReason ||
-                    (seasonalLow
+                    (seasonalLow && lowestPrice !== null
                       ? `Current price is near the seasonal low of ${formatPrice(lowestPrice)}.`
                       : `Price is trending favorably compared to recent history.`)}
                 </p>
@@ -210,18 +263,25 @@ export default function PriceTrendChart({
           <span>Low: {formatPrice(lowestPrice)}</span>
           <span>High: {formatPrice(highestPrice)}</span>
         </div>
+        {quantity !== undefined && monthlyUsage !== undefined && monthlyUsage > 0 && (
+          <p className="text-xs text-gray-500 mb-2">
+            {quantity} on hand · {describeRunOut(daysOfStock(quantity, monthlyUsage))} at {monthlyUsage}/month
+          </p>
+        )}
 
         {/* Chart tabs */}
         <Tabs defaultValue="weekly" value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3 mb-4">
-            <TabsTrigger value="weekly">Weekly</TabsTrigger>
-            <TabsTrigger value="monthly">Monthly</TabsTrigger>
-            <TabsTrigger value="threeMonth">3 Month</TabsTrigger>
-          </TabsList>
+          {hasHistory && (
+            <TabsList className="grid w-full grid-cols-3 mb-4">
+              <TabsTrigger value="weekly">Weekly</TabsTrigger>
+              <TabsTrigger value="monthly">Monthly</TabsTrigger>
+              <TabsTrigger value="threeMonth">3 Month</TabsTrigger>
+            </TabsList>
+          )}
 
           <TabsContent value={activeTab} className="h-[300px]">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+              <LineChart data={chartRows} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
                 <XAxis
                   dataKey="date"
@@ -243,10 +303,37 @@ export default function PriceTrendChart({
                   strokeWidth={2}
                   dot={{ r: 3 }}
                   activeDot={{ r: 5 }}
+                  connectNulls
                 />
+                {visiblePaidPrices.length > 0 && (
+                  <Line
+                    type="monotone"
+                    dataKey="paid"
+                    stroke="#2563eb"
+                    strokeWidth={2}
+                    strokeDasharray="4 4"
+                    dot={{ r: 4 }}
+                    activeDot={{ r: 6 }}
+                    connectNulls
+                  />
+                )}
               </LineChart>
             </ResponsiveContainer>
           </TabsContent>
+          {visiblePaidPrices.length > 0 && (
+            <div className="mt-2 flex justify-center gap-4 text-xs text-gray-500">
+              {chartData.length > 0 && (
+                <span className="flex items-center">
+                  <span className="inline-block w-3 h-0.5 mr-1 bg-green-500" />
+                  Store prices
+                </span>
+              )}
+              <span className="flex items-center">
+                <span className="inline-block w-3 h-0.5 mr-1 bg-blue-600" />
+                What you paid
+              </span>
+            </div>
+          )}
         </Tabs>
       </CardContent>
     </Card>
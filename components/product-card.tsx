@@ -0,0 +1,192 @@
+"use client";
+
+import type React from "react";
+
+import { Clock, HelpCircle, Plus, Trash2 } from "lucide-react";
+import type { ProductBadge } from "@/lib/shopping-styles";
+import type { ProductType } from "@/lib/types";
+
+interface ProductCardProps {
+  product: ProductType;
+  onAddToList?: (id: string) => void;
+  onRemoveFromList?: (id: string) => void;
+  isInList?: boolean;
+  // Tags to emphasize for the user's shopping style
+  highlightedBadges?: ProductBadge[];
+  // Extra controls, shown above the action button
+  children?: React.ReactNode;
+}
+
+const PRODUCT_BADGES: {
+  badge: ProductBadge;
+  label: string;
+  applies: (product: ProductType) => boolean;
+  className: string;
+}[] = [
+  {
+    badge: "healthy",
+    label: "Organic",
+    applies: (product) => product.isHealthy,
+    className: "bg-green-100 text-green-800",
+  },
+  {
+    badge: "value",
+    label: "Value Pick",
+    applies: (product) => product.isValuePick,
+    className: "bg-yellow-100 text-yellow-800",
+  },
+  {
+    badge: "bulk",
+    label: "Bulk Pack",
+    applies: (product) => product.isBulkOption,
+    className: "bg-orange-100 text-orange-800",
+  },
+];
+
+// Product Card Component for consistent styling
+export default function ProductCard({
+  product,
+  onAddToList,
+  onRemoveFromList,
+  isInList = false,
+  highlightedBadges = [],
+  children,
+}: ProductCardProps) {
+  // Highlighted tags go first; the rest keep their usual order
+  const badges = PRODUCT_BADGES.filter(({ applies }) => applies(product)).sort(
+    (a, b) =>
+      Number(highlightedBadges.includes(b.badge)) -
+      Number(highlightedBadges.includes(a.badge))
+  );
+
+  return (
+    <div className="border rounded-lg overflow-hidden hover:shadow-md transition-shadow h-full flex flex-col">
+      <div className="p-4 flex flex-col h-full">
+        {/* Header with product name and badges */}
+        <div className="flex justify-between items-start mb-3">
+          <h3 className="text-sm font-medium text-gray-900 leading-tight">
+            {product.name}
+          </h3>
+          <div className="flex-shrink-0 ml-2">
+            {product.isBuyRecommended && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+                Buy Now!
+              </span>
+            )}
+            {isInList && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 whitespace-nowrap">
+                Qty: {product.quantity || 1}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Product image */}
+        <div className="flex justify-center items-center h-24 mb-3">
+          {product.imageUrl && (
+            <img
+              src={product.imageUrl || "/placeholder.svg"}
+              alt={product.name}
+              className="h-full w-auto object-contain"
+              onError={(e) => {
+                (e.target as HTMLImageElement).src =
+                  "/colorful-grocery-aisle.png";
+              }}
+            />
+          )}
+        </div>
+
+        {/* Price information */}
+        <div className="mb-2">
+          {product.lowestPrice ? (
+            <div className="flex items-baseline">
+              <span className="text-lg font-semibold text-gray-900">
+                ${product.lowestPrice.price.toFixed(2)}
+              </span>
+              {product.lowestPrice.store && (
+                <span className="ml-1 text-sm text-gray-500">
+                  @ {product.lowestPrice.store}
+                </span>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center">
+              <HelpCircle className="h-4 w-4 mr-1 text-gray-400" />
+              <span className="text-sm font-medium text-gray-500">
+                Price unknown
+              </span>
+            </div>
+          )}
+        </div>
+
+        {/* Price range */}
+        <div className="text-xs text-gray-500 mb-2">
+          <div className="flex items-center">
+            <Clock className="h-3 w-3 mr-1" />
+            <span>Price range past 6 weeks:</span>
+          </div>
+          {product.priceRange ? (
+            <div className="mt-1 flex items-center">
+              <span className="font-medium">
+                ${product.priceRange.min.toFixed(2)}
+              </span>
+              <div className="mx-2 h-0.5 w-8 bg-gray-200 rounded"></div>
+              <span>${product.priceRange.max.toFixed(2)}</span>
+            </div>
+          ) : (
+            <div className="mt-1 italic">No recent price observations</div>
+          )}
+        </div>
+
+        {/* Product tags */}
+        <div className="flex items-center text-xs mb-3 flex-wrap gap-1">
+          <span
+            className={`px-2 py-0.5 rounded ${
+              product.type === "Store Brand"
+                ? "bg-blue-100 text-blue-800"
+                : "bg-purple-100 text-purple-800"
+            }`}
+          >
+            {product.type}
+          </span>
+          {badges.map(({ badge, label, className }) => (
+            <span
+              key={badge}
+              className={`px-2 py-0.5 rounded ${className} ${
+                highlightedBadges.includes(badge)
+                  ? "font-semibold ring-1 ring-current"
+                  : ""
+              }`}
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+
+        {/* Spacer to push button to bottom */}
+        <div className="flex-grow"></div>
+
+        {children}
+
+        {/* Action button */}
+        {isInList ? (
+          <button
+            onClick={() => onRemoveFromList && onRemoveFromList(product.id)}
+            className="w-full flex items-center justify-center px-3 py-2 border border-red-500 text-red-500 rounded-md text-sm font-medium hover:bg-red-50 transition-colors"
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Remove from list
+          </button>
+        ) : (
+          <button
+            onClick={() => onAddToList && onAddToList(product.id)}
+            className="w-full flex items-center justify-center px-3 py-2 border border-green-600 text-green-600 rounded-md text-sm font-medium hover:bg-green-50 transition-colors"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add to my list
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Plus } from "lucide-react";
+import { toDateInputValue } from "@/lib/expiry";
+import type { NewPurchase } from "@/lib/types";
+
+interface PurchaseFormProps {
+  // Offered as suggestions while typing
+  itemNames: string[];
+  storeNames: string[];
+  // Resolves to true when saved, which clears the form
+  onSubmit: (purchase: NewPurchase) => Promise<boolean>;
+}
+
+/**
+ * Form for logging a purchase by hand
+ */
+export default function PurchaseForm({
+  itemNames,
+  storeNames,
+  onSubmit,
+}: PurchaseFormProps) {
+  const [itemName, setItemName] = useState("");
+  const [store, setStore] = useState("");
+  const [price, setPrice] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const priceNum = Number.parseFloat(price);
+    const quantityNum = Number.parseInt(quantity);
+    if (!itemName.trim()) {
+      toast.error("Please enter what you bought");
+      return;
+    }
+    if (isNaN(priceNum) || priceNum <= 0) {
+      toast.error("Please enter the price you paid");
+      return;
+    }
+    if (isNaN(quantityNum) || quantityNum <= 0) {
+      toast.error("Please enter a valid quantity");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const saved = await onSubmit({
+        itemName: itemName.trim(),
+        store: store.trim(),
+        price: priceNum,
+        quantity: quantityNum,
+        // Noon, so the day doesn't shift in other time zones
+        purchasedAt: new Date(`${date}T12:00:00`).toISOString(),
+      });
+      if (saved) {
+        setItemName("");
+        setPrice("");
+        setQuantity("1");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm";
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end"
+    >
+      <label className="col-span-2 text-sm font-medium text-gray-700">
+        Item
+        <input
+          type="text"
+          list="purchase-item-names"
+          value={itemName}
+          onChange={(e) => setItemName(e.target.value)}
+          className={inputClass}
+          placeholder="e.g., Rice"
+        />
+        <datalist id="purchase-item-names">
+          {itemNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Store
+        <input
+          type="text"
+          list="purchase-store-names"
+          value={store}
+          onChange={(e) => setStore(e.target.value)}
+          className={inputClass}
+        />
+        <datalist id="purchase-store-names">
+          {storeNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Price each ($)
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Quantity
+        <input
+          type="number"
+          min="1"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm font-medium text-gray-700">
+        Date
+        <input
+          type="date"
+          value={date}
+          max={toDateInputValue(new Date())}
+          onChange={(e) => setDate(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="col-span-2 md:col-span-6 inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {isSubmitting ? "Saving..." : "Log purchase"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { FileText, Upload } from "lucide-react";
+import { toDateInputValue } from "@/lib/expiry";
+import {
+  RECEIPT_PARSERS,
+  parseReceipt,
+  suggestMatch,
+  type ReceiptLine,
+} from "@/lib/receipts";
+import type { NewPurchase, PantryItemUpdate, ProductType } from "@/lib/types";
+
+interface ReceiptImportProps {
+  pantryItems: ProductType[];
+  listItems: ProductType[];
+  // Offered as suggestions for the store
+  storeNames: string[];
+  // Resolves to true when saved
+  onLogPurchases: (purchases: NewPurchase[]) => Promise<boolean>;
+  onUpdatePantryItem: (
+    itemId: string,
+    changes: PantryItemUpdate
+  ) => Promise<boolean>;
+}
+
+// A parsed line as the user is reviewing it. match is "" for no match,
+// "pantry:<id>" or "product:<id>".
+type ImportLine = ReceiptLine & { include: boolean; match: string };
+
+/**
+ * Reads pasted or uploaded receipt text into lines the user can correct and
+ * match to pantry items or products before logging them as purchases.
+ * Matched pantry items have their quantity topped up.
+ */
+export default function ReceiptImport({
+  pantryItems,
+  listItems,
+  storeNames,
+  onLogPurchases,
+  onUpdatePantryItem,
+}: ReceiptImportProps) {
+  const [text, setText] = useState("");
+  // Empty to detect the chain from the receipt
+  const [chain, setChain] = useState("");
+  const [store, setStore] = useState("");
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [lines, setLines] = useState<ImportLine[] | null>(null);
+  const [parserLabel, setParserLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // Set once the lines are logged, so a retry after a failed pantry update
+  // doesn't log them again
+  const [purchasesLogged, setPurchasesLogged] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setLines(null);
+    } catch (error) {
+      console.error("Error reading receipt file:", error);
+      toast.error("Couldn't read that file");
+    }
+  };
+
+  const handleParse = () => {
+    const { parser, lines: parsed } = parseReceipt(text, chain || undefined);
+    if (parsed.length === 0) {
+      toast.error("No items found on that receipt");
+      setLines(null);
+      return;
+    }
+
+    setParserLabel(parser.label);
+    setPurchasesLogged(false);
+    if (!store && parser.chain !== "generic") {
+      setStore(
+        storeNames.find((name) =>
+          name.toLowerCase().includes(parser.label.toLowerCase())
+        ) ?? parser.label
+      );
+    }
+    setLines(
+      parsed.map((line) => {
+        const pantryMatch = suggestMatch(line.name, pantryItems);
+        const productMatch = pantryMatch
+          ? null
+          : suggestMatch(line.name, listItems);
+        return {
+          ...line,
+          include: true,
+          match: pantryMatch
+            ? `pantry:${pantryMatch.id}`
+            : productMatch
+              ? `product:${productMatch.id}`
+              : "",
+        };
+      })
+    );
+  };
+
+  const updateLine = (index: number, changes: Partial<ImportLine>) =>
+    setLines(
+      (prev) =>
+        prev &&
+        prev.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+
+  const findMatch = (match: string) => {
+    const [kind, id] = match.split(":");
+    if (kind === "pantry") {
+      const item = pantryItems.find((entry) => entry.id === id);
+      return item ? { kind, item } : null;
+    }
+    if (kind === "product") {
+      const item = listItems.find((entry) => entry.id === id);
+      return item ? { kind, item } : null;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!lines) return;
+
+    const included = lines.filter(
+      (line) => line.include && line.name.trim() && line.quantity > 0
+    );
+    if (included.length === 0) {
+      toast.error("Select at least one line to import");
+      return;
+    }
+
+    // Noon, so the day doesn't shift in other time zones
+    const purchasedAt = new Date(`${date}T12:00:00`).toISOString();
+    const purchases: NewPurchase[] = included.map((line) => {
+      const match = findMatch(line.match);
+      return {
+        productId: match?.kind === "product" ? match.item.id : undefined,
+        itemName: match ? match.item.name : line.name.trim(),
+        store: store.trim(),
+        price: line.unitPrice,
+        quantity: line.quantity,
+        purchasedAt,
+      };
+    });
+
+    setIsSaving(true);
+    try {
+      if (!purchasesLogged) {
+        if (!(await onLogPurchases(purchases))) return;
+        setPurchasesLogged(true);
+      }
+
+      // One update per pantry item, since several lines can match the same
+      // one and each update sets the quantity outright
+      const added = new Map<string, { item: ProductType; quantity: number }>();
+      for (const line of included) {
+        const match = findMatch(line.match);
+        if (match?.kind !== "pantry") continue;
+        const entry = added.get(match.item.id);
+        added.set(match.item.id, {
+          item: match.item,
+          quantity: (entry?.quantity ?? 0) + line.quantity,
+        });
+      }
+      const pantryUpdates = Array.from(added.values());
+      const results = await Promise.all(
+        pantryUpdates.map(({ item, quantity }) =>
+          onUpdatePantryItem(item.id, {
+            quantity: (item.quantity ?? 1) + quantity,
+          })
+        )
+      );
+      const updated = results.filter(Boolean).length;
+      if (updated > 0) {
+        toast.success(
+          updated === 1
+            ? "Updated 1 pantry item"
+            : `Updated ${updated} pantry items`
+        );
+      }
+
+      // Keep the lines whose pantry update failed, for another try
+      const failedIds = pantryUpdates
+        .filter((_, index) => !results[index])
+        .map(({ item }) => item.id);
+      if (failedIds.length > 0) {
+        setLines(
+          included.filter((line) => {
+            const match = findMatch(line.match);
+            return (
+              match?.kind === "pantry" && failedIds.includes(match.item.id)
+            );
+          })
+        );
+        return;
+      }
+
+      setText("");
+      setLines(null);
+      setPurchasesLogged(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm";
+  const cellInputClass =
+    "w-full border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500";
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end mb-3">
+        <label className="text-sm font-medium text-gray-700">
+          Store chain
+          <select
+            value={chain}
+            onChange={(e) => setChain(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Detect automatically</option>
+            {RECEIPT_PARSERS.map((parser) => (
+              <option key={parser.chain} value={parser.chain}>
+                {parser.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Store
+          <input
+            type="text"
+            list="receipt-store-names"
+            value={store}
+            onChange={(e) => setStore(e.target.value)}
+            className={inputClass}
+          />
+          <datalist id="receipt-store-names">
+            {storeNames.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Date
+          <input
+            type="date"
+            value={date}
+            max={toDateInputValue(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="inline-flex justify-center items-center px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+          <Upload className="h-4 w-4 mr-1" />
+          Upload .txt
+          <input
+            type="file"
+            accept=".txt,text/plain"
+            onChange={handleFile}
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setLines(null);
+        }}
+        rows={8}
+        className={`${inputClass} font-mono`}
+        placeholder="Paste the text of a receipt here"
+      />
+      <button
+        type="button"
+        onClick={handleParse}
+        disabled={!text.trim()}
+        className="mt-3 inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+      >
+        <FileText className="h-4 w-4 mr-1" />
+        Read receipt
+      </button>
+
+      {lines && (
+        <div className="mt-6">
+          {purchasesLogged ? (
+            <p className="text-sm text-amber-700 mb-2">
+              Your purchases were saved, but these pantry items weren&apos;t
+              updated. Try again to add them to your pantry.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600 mb-2">
+              Read as a {parserLabel} receipt. Check the lines and match them to
+              your pantry or list before saving.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-700">
+                  <th className="py-2 pr-2 font-medium">
+                    <span className="sr-only">Include</span>
+                  </th>
+                  <th className="py-2 pr-2 font-medium">Item</th>
+                  <th className="py-2 pr-2 font-medium w-20">Qty</th>
+                  <th className="py-2 pr-2 font-medium w-28">Paid each</th>
+                  <th className="py-2 font-medium">Matches</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr
+                    key={index}
+                    className={`border-b border-gray-100 align-top ${line.include ? "" : "opacity-50"}`}
+                  >
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={line.include}
+                        onChange={(e) =>
+                          updateLine(index, { include: e.target.checked })
+                        }
+                        className="h-4 w-4 mt-1.5 text-green-600 border-gray-300 rounded"
+                        aria-label={`Import ${line.name}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="text"
+                        value={line.name}
+                        onChange={(e) =>
+                          updateLine(index, { name: e.target.value })
+                        }
+                        className={cellInputClass}
+                      />
+                      <p className="mt-1 text-xs text-gray-400 font-mono truncate">
+                        {line.raw}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            quantity: Number.parseInt(e.target.value) || 0,
+                          })
+                        }
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.unitPrice}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            unitPrice: Number.parseFloat(e.target.value) || 0,
+                          })
+                        }
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <select
+                        value={line.match}
+                        onChange={(e) =>
+                          updateLine(index, { match: e.target.value })
+                        }
+                        className={cellInputClass}
+                      >
+                        <option value="">No match</option>
+                        {pantryItems.length > 0 && (
+                          <optgroup label="My Pantry">
+                            {pantryItems.map((item) => (
+                              <option key={item.id} value={`pantry:${item.id}`}>
+                                {item.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {listItems.length > 0 && (
+                          <optgroup label="My List">
+                            {listItems.map((item) => (
+                              <option
+                                key={item.id}
+                                value={`product:${item.id}`}
+                              >
+                                {item.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setLines(null);
+                setPurchasesLogged(false);
+              }}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            >
+              {isSaving
+                ? "Saving..."
+                : purchasesLogged
+                  ? "Update pantry"
+                  : "Save purchases"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,25 +10,8 @@ import {
   Edit,
   AlertCircle,
 } from "lucide-react";
-
-type Ingredient = {
-  id: string;
-  name: string;
-  quantity: number;
-  unit: string;
-  currentPrice: number;
-  previousPrice: number | null;
-};
-
-type Recipe = {
-  id: string;
-  name: string;
-  ingredients: Ingredient[];
-  totalCurrentPrice: number;
-  totalPreviousPrice: number | null;
-  priceChange: number | null;
-  lastUpdated: string;
-};
+import { api } from "@/lib/api";
+import type { NewIngredient, Recipe } from "@/lib/types";
 
 export default function RecipePriceTracker() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
@@ -40,9 +23,9 @@ export default function RecipePriceTracker() {
 
   // New recipe form state
   const [newRecipeName, setNewRecipeName] = useState("");
-  const [newIngredients, setNewIngredients] = useState<
-    Omit<Ingredient, "id" | "currentPrice" | "previousPrice">[]
-  >([{ name: "", quantity: 1, unit: "item" }]);
+  const [newIngredients, setNewIngredients] = useState<NewIngredient[]>([
+    { name: "", quantity: 1, unit: "item" },
+  ]);
 
   useEffect(() => {
     fetchRecipes();
@@ -51,27 +34,11 @@ export default function RecipePriceTracker() {
   const fetchRecipes = async () => {
     try {
       setLoading(true);
-      const token = localStorage.getItem("token");
-
-      if (!token) {
+      if (!localStorage.getItem("token")) {
         throw new Error("Authentication required");
       }
 
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/recipes`,
-        {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch recipes");
-      }
-
-      const data = await response.json();
-      setRecipes(data.recipes || []);
+      setRecipes(await api.getRecipes());
     } catch (err) {
       console.error("Error fetching recipes:", err);
       setError(err instanceof Error ? err.message : "Failed to load recipes");
@@ -123,30 +90,14 @@ export default function RecipePriceTracker() {
       }
 
       setLoading(true);
-      const token = localStorage.getItem("token");
-
-      if (!token) {
+      if (!localStorage.getItem("token")) {
         throw new Error("Authentication required");
       }
 
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/recipes`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            name: newRecipeName,
-            ingredients: newIngredients,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to save recipe");
-      }
+      await api.createRecipe({
+        name: newRecipeName,
+        ingredients: newIngredients,
+      });
 
       // Reset form
       setNewRecipeName("");
@@ -170,25 +121,11 @@ export default function RecipePriceTracker() {
 
     try {
       setLoading(true);
-      const token = localStorage.getItem("token");
-
-      if (!token) {
+      if (!localStorage.getItem("token")) {
         throw new Error("Authentication required");
       }
 
-      const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL}/recipes/${recipeId}`,
-        {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to delete recipe");
-      }
+      await api.deleteRecipe(recipeId);
 
       // Refresh recipes
       fetchRecipes();
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Plus, Search, TrendingDown } from "lucide-react";
+import { LEAD_TIME_OPTIONS, type RestockSuggestion } from "@/lib/restock";
+
+interface RestockSuggestionsProps {
+  suggestions: RestockSuggestion[];
+  leadTimeDays: number;
+  onLeadTimeChange: (days: number) => void;
+  onAddToList: (productId: string, quantity: number) => Promise<void>;
+}
+
+const TIMING_STYLES: Record<RestockSuggestion["timing"], string> = {
+  seasonalLow: "bg-blue-50 text-blue-700",
+  buyRecommended: "bg-green-50 text-green-700",
+  runningOut: "bg-amber-50 text-amber-700",
+};
+
+const TIMING_LABELS: Record<RestockSuggestion["timing"], string> = {
+  seasonalLow: "Seasonal low",
+  buyRecommended: "Good price",
+  runningOut: "Running low",
+};
+
+/**
+ * Pantry items worth putting back on My List, with a quantity the user can
+ * adjust before adding
+ */
+export default function RestockSuggestions({
+  suggestions,
+  leadTimeDays,
+  onLeadTimeChange,
+  onAddToList,
+}: RestockSuggestionsProps) {
+  // Keyed by pantry item id; the suggested quantity until changed
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [addingId, setAddingId] = useState<string | null>(null);
+
+  const handleAdd = async (suggestion: RestockSuggestion) => {
+    if (!suggestion.productId) return;
+    setAddingId(suggestion.item.id);
+    try {
+      await onAddToList(
+        suggestion.productId,
+        quantities[suggestion.item.id] ?? suggestion.quantity
+      );
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center text-sm text-gray-700 mb-4">
+        Suggest items running out within
+        <select
+          value={leadTimeDays}
+          onChange={(e) => onLeadTimeChange(Number(e.target.value))}
+          className="mx-2 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+        >
+          {LEAD_TIME_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">(sooner when prices are low)</span>
+      </label>
+
+      {suggestions.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {suggestions.map((suggestion) => (
+            <li
+              key={suggestion.item.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center">
+                  <span className="font-medium">{suggestion.item.name}</span>
+                  <span
+                    className={`ml-2 inline-flex items-center text-xs px-2 py-0.5 rounded-full ${TIMING_STYLES[suggestion.timing]}`}
+                  >
+                    {suggestion.timing !== "runningOut" && (
+                      <TrendingDown className="h-3 w-3 mr-1" />
+                    )}
+                    {TIMING_LABELS[suggestion.timing]}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500">{suggestion.reason}</p>
+              </div>
+              {suggestion.productId ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={
+                      quantities[suggestion.item.id] ?? suggestion.quantity
+                    }
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [suggestion.item.id]: Math.max(
+                          1,
+                          Number.parseInt(e.target.value) || 1
+                        ),
+                      }))
+                    }
+                    className="w-16 border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                    aria-label={`Quantity of ${suggestion.item.name}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleAdd(suggestion)}
+                    disabled={addingId === suggestion.item.id}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add to list
+                  </button>
+                </div>
+              ) : (
+                <Link
+                  href={`/dashboard/search?q=${encodeURIComponent(suggestion.item.name)}`}
+                  className="inline-flex items-center text-sm text-green-700 hover:text-green-800"
+                >
+                  <Search className="h-4 w-4 mr-1" />
+                  Find in stores
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-center text-sm text-gray-500 py-4">
+          Nothing needs restocking in the next {leadTimeDays} days.
+        </p>
+      )}
+    </div>
+  );
+}
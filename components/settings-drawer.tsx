@@ -0,0 +1,176 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "react-hot-toast";
+import { SHOPPING_STYLE_OPTIONS } from "@/lib/shopping-styles";
+import { validateProfile } from "@/lib/validation";
+import type { ProfileUpdate, UserType } from "@/lib/types";
+
+interface SettingsDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: UserType;
+  // Resolves to true when the changes were saved
+  onSave: (changes: ProfileUpdate) => Promise<boolean>;
+}
+
+export default function SettingsDrawer({
+  isOpen,
+  onClose,
+  user,
+  onSave,
+}: SettingsDrawerProps) {
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-50 overflow-hidden"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+        >
+          <div className="absolute inset-0 overflow-hidden">
+            <motion.div
+              className="absolute inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+              onClick={onClose}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+            ></motion.div>
+            <div className="fixed inset-y-0 right-0 max-w-full flex">
+              <motion.div
+                className="relative w-screen max-w-md"
+                initial={{ x: "100%" }}
+                animate={{ x: 0 }}
+                exit={{ x: "100%" }}
+                transition={{ type: "spring", damping: 25, stiffness: 300 }}
+              >
+                <div className="h-full flex flex-col py-6 bg-white shadow-xl overflow-y-auto">
+                  <div className="px-4 sm:px-6">
+                    <div className="flex items-start justify-between">
+                      <h2 className="text-lg font-medium text-gray-900">
+                        User Settings
+                      </h2>
+                      <button
+                        onClick={onClose}
+                        className="rounded-md text-gray-400 hover:text-gray-500 focus:outline-none"
+                      >
+                        <span className="sr-only">Close panel</span>
+                        <X className="h-6 w-6" />
+                      </button>
+                    </div>
+                  </div>
+                  {/* Mounted on open, so the form starts from the saved values */}
+                  <ProfileForm user={user} onSave={onSave} onClose={onClose} />
+                </div>
+              </motion.div>
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function ProfileForm({
+  user,
+  onSave,
+  onClose,
+}: Pick<SettingsDrawerProps, "user" | "onSave" | "onClose">) {
+  const [zipCode, setZipCode] = useState(user.zipCode);
+  const [shoppingStyle, setShoppingStyle] = useState(user.shoppingStyle);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const hasChanges =
+    zipCode.trim() !== user.zipCode || shoppingStyle !== user.shoppingStyle;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const changes = { zipCode: zipCode.trim(), shoppingStyle };
+    const error = validateProfile(changes);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave(changes);
+    setIsSaving(false);
+
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-6 relative flex-1 flex flex-col px-4 sm:px-6"
+    >
+      <div className="space-y-6">
+        <div>
+          <label
+            htmlFor="settings-zip-code"
+            className="block text-sm font-medium text-gray-700"
+          >
+            ZIP Code
+          </label>
+          <input
+            id="settings-zip-code"
+            type="text"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            value={zipCode}
+            onChange={(e) => setZipCode(e.target.value)}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            Stores and prices on your dashboard are based on this ZIP code.
+          </p>
+        </div>
+        <div>
+          <label
+            htmlFor="settings-shopping-style"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Shopping Style
+          </label>
+          <select
+            id="settings-shopping-style"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            value={shoppingStyle}
+            onChange={(e) => setShoppingStyle(e.target.value)}
+          >
+            {SHOPPING_STYLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-auto pt-6 flex justify-end space-x-3">
+        <button
+          type="button"
+          className="inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+          onClick={onClose}
+          disabled={isSaving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-sm font-medium text-white hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
+          disabled={isSaving || !hasChanges}
+        >
+          {isSaving ? "Saving..." : "Save Changes"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Clock } from "lucide-react";
+
+interface ShoppingTimePickerProps {
+  value: Date | null;
+  onChange: (time: Date | null) => void;
+}
+
+// datetime-local inputs want local time as YYYY-MM-DDTHH:mm
+const toInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Lets the user say when they plan to shop, so prices from stores that are
+ * closed then can be left out
+ */
+export default function ShoppingTimePicker({
+  value,
+  onChange,
+}: ShoppingTimePickerProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <label className="inline-flex items-center text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked ? new Date() : null)}
+          className="mr-2 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+        />
+        <Clock className="h-4 w-4 mr-1 text-green-600" />
+        Only stores open when I shop
+      </label>
+      {value && (
+        <input
+          type="datetime-local"
+          aria-label="Planned shopping time"
+          value={toInputValue(value)}
+          onChange={(e) => {
+            const time = new Date(e.target.value);
+            if (!isNaN(time.getTime())) onChange(time);
+          }}
+          className="border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-green-500 focus:border-green-500"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  SUGGESTED_STORAGE_LOCATIONS,
+  getUsedCapacity,
+} from "@/lib/storage-locations";
+import type { ProductType, StorageLocation } from "@/lib/types";
+
+interface StorageLocationsProps {
+  locations: StorageLocation[];
+  // Pantry items, to show how full each location is
+  items: ProductType[];
+  // Resolves to true when saved, which clears the form
+  onAdd: (name: string, capacity: number | null) => Promise<boolean>;
+  onRemove: (locationId: string) => void;
+}
+
+/**
+ * The user's storage locations with how full they are, and a form for
+ * adding more
+ */
+export default function StorageLocations({
+  locations,
+  items,
+  onAdd,
+  onRemove,
+}: StorageLocationsProps) {
+  const [name, setName] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (locationName: string, capacityValue: string) => {
+    const capacityNum = Number.parseInt(capacityValue);
+    setIsSaving(true);
+    try {
+      return await onAdd(
+        locationName,
+        isNaN(capacityNum) || capacityNum <= 0 ? null : capacityNum
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (await save(name.trim(), capacity)) {
+      setName("");
+      setCapacity("");
+    }
+  };
+
+  const suggestions = SUGGESTED_STORAGE_LOCATIONS.filter(
+    (suggestion) =>
+      !locations.some(
+        (location) => location.name.toLowerCase() === suggestion.toLowerCase()
+      )
+  );
+
+  return (
+    <div>
+      {locations.length > 0 && (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {locations.map((location) => {
+            const used = getUsedCapacity(location, items);
+            const isFull =
+              location.capacity !== null && used >= location.capacity;
+            return (
+              <li key={location.id} className="border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{location.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(location.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${location.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <p
+                  className={`text-sm ${isFull ? "text-red-600" : "text-gray-500"}`}
+                >
+                  {location.capacity === null
+                    ? `${used} ${used === 1 ? "item" : "items"}`
+                    : `${used} of about ${location.capacity} items`}
+                </p>
+                {location.capacity !== null && (
+                  <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                    <div
+                      className={isFull ? "bg-red-500 h-2" : "bg-green-500 h-2"}
+                      style={{
+                        width: `${Math.min(100, (used / location.capacity) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="text-sm font-medium text-gray-700">
+          Location
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 block w-48 border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            placeholder="e.g., Chest freezer"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Holds about (items)
+          <input
+            type="number"
+            min="1"
+            value={capacity}
+            onChange={(e) => setCapacity(e.target.value)}
+            className="mt-1 block w-32 border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            placeholder="Optional"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add location
+        </button>
+      </form>
+
+      {locations.length === 0 && suggestions.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+          Quick add:
+          {suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              disabled={isSaving}
+              onClick={() => save(suggestion, "")}
+              className="px-2 py-1 rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { describeOpenStatus, getOpenStatus } from "@/lib/store-hours";
+import type { StoreType } from "@/lib/types";
+
+interface StoreHoursBadgeProps {
+  store: StoreType;
+  // Defaults to now
+  at?: Date;
+}
+
+/**
+ * "Open now · closes 9 PM" style badge. Renders nothing when the store's
+ * hours can't be read.
+ */
+export default function StoreHoursBadge({ store, at }: StoreHoursBadgeProps) {
+  const now = at ?? new Date();
+  const status = getOpenStatus(store, now);
+  if (!status) return null;
+
+  return (
+    <span
+      className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+        status.isOpen
+          ? "bg-green-100 text-green-800"
+          : "bg-gray-100 text-gray-600"
+      }`}
+    >
+      {describeOpenStatus(status, now)}
+    </span>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import type React from "react";
+
+import GoogleMap from "@/components/google-map";
+import SvgStoreMap from "@/components/svg-store-map";
+import type { ProductType, StoreType } from "@/lib/types";
+
+/**
+ * Props every map provider accepts
+ */
+export interface StoreMapProps {
+  zipCode: string;
+  height?: string;
+  width?: string;
+  stores?: StoreType[];
+  // My List items; each store's details list those cheapest there
+  listItems?: ProductType[];
+  // Bring this store into view and show its details
+  focusedStoreId?: string | null;
+  onStoreSelect?: (storeId: string) => void;
+}
+
+export type MapProvider = {
+  id: string;
+  // Whether the provider can run with the current configuration
+  isAvailable: () => boolean;
+  Component: React.ComponentType<StoreMapProps>;
+};
+
+/**
+ * Providers in order of preference. The SVG map needs no API key, so it is
+ * always available as the last resort.
+ */
+export const MAP_PROVIDERS: MapProvider[] = [
+  {
+    id: "google",
+    isAvailable: () => !!process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY,
+    Component: GoogleMap,
+  },
+  {
+    id: "svg",
+    isAvailable: () => true,
+    Component: SvgStoreMap,
+  },
+];
+
+/**
+ * The provider to use. NEXT_PUBLIC_MAP_PROVIDER picks one by id (e.g. "svg"
+ * to stay offline even with a key); otherwise the first available one wins.
+ */
+export const getMapProvider = (): MapProvider => {
+  const requested = MAP_PROVIDERS.find(
+    (provider) => provider.id === process.env.NEXT_PUBLIC_MAP_PROVIDER
+  );
+  if (requested?.isAvailable()) return requested;
+
+  return (
+    MAP_PROVIDERS.find((provider) => provider.isAvailable()) ??
+    MAP_PROVIDERS[MAP_PROVIDERS.length - 1]
+  );
+};
+
+export default function StoreMap(props: StoreMapProps) {
+  const { Component } = getMapProvider();
+  return <Component {...props} />;
+}
@@ -0,0 +1,201 @@
+"use client";
+
+import type { StoreMapProps } from "@/components/store-map";
+import { distanceInMiles, projectToMiles } from "@/lib/geo";
+import {
+  estimateZipCenter,
+  getCheapestItemsAtStore,
+  getHoursForDay,
+  getStorePosition,
+} from "@/lib/stores";
+import type { ProductType, StoreType } from "@/lib/types";
+
+const NO_STORES: StoreType[] = [];
+const NO_ITEMS: ProductType[] = [];
+
+const VIEW_WIDTH = 400;
+const VIEW_HEIGHT = 300;
+const PADDING = 24;
+// Ring spacing in miles; the smallest that needs at most four rings is used
+const RING_STEPS = [0.5, 1, 2, 5, 10, 25, 50];
+
+/**
+ * Store map drawn from coordinates alone, for setups without a Google Maps
+ * key. Stores are plotted around the ZIP code's centre with distance rings.
+ */
+export default function SvgStoreMap({
+  zipCode,
+  height = "300px",
+  width = "100%",
+  stores = NO_STORES,
+  listItems = NO_ITEMS,
+  focusedStoreId = null,
+  onStoreSelect,
+}: StoreMapProps) {
+  const positions = stores.map((store) => ({
+    store,
+    position: getStorePosition(store),
+  }));
+
+  // There is no geocoder offline, so the ZIP centre is estimated
+  const center = estimateZipCenter(stores, zipCode);
+
+  if (!center) {
+    return (
+      <div
+        style={{ height, width }}
+        className="flex items-center justify-center bg-gray-100 rounded-lg border border-gray-200"
+      >
+        <p className="text-gray-500">
+          No store locations to show for ZIP code {zipCode}.
+        </p>
+      </div>
+    );
+  }
+
+  const points = positions.map(({ store, position }) => ({
+    store,
+    distance: distanceInMiles(center, position),
+    ...projectToMiles(position, center),
+  }));
+
+  const maxDistance = Math.max(
+    0.5,
+    ...points.map(({ x, y }) => Math.hypot(x, y))
+  );
+  const pixelsPerMile =
+    (Math.min(VIEW_WIDTH, VIEW_HEIGHT) / 2 - PADDING) / maxDistance;
+  const ringStep =
+    RING_STEPS.find((step) => maxDistance / step <= 4) ??
+    RING_STEPS[RING_STEPS.length - 1];
+  const rings = Array.from(
+    { length: Math.max(1, Math.floor(maxDistance / ringStep)) },
+    (_, index) => (index + 1) * ringStep
+  );
+
+  const toView = (x: number, y: number) => ({
+    cx: VIEW_WIDTH / 2 + x * pixelsPerMile,
+    cy: VIEW_HEIGHT / 2 - y * pixelsPerMile,
+  });
+
+  const focused = points.find(({ store }) => store._id === focusedStoreId);
+  const focusedHours = focused ? getHoursForDay(focused.store) : null;
+
+  return (
+    <div style={{ width }}>
+      <div
+        style={{ height }}
+        className="relative rounded-lg overflow-hidden border border-gray-200 bg-gray-50"
+      >
+        <svg
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="h-full w-full"
+          role="img"
+          aria-label={`Map of ${stores.length} stores near ZIP code ${zipCode}`}
+        >
+          {rings.map((miles) => (
+            <g key={miles}>
+              <circle
+                cx={VIEW_WIDTH / 2}
+                cy={VIEW_HEIGHT / 2}
+                r={miles * pixelsPerMile}
+                fill="none"
+                stroke="#d1d5db"
+                strokeDasharray="4 4"
+              />
+              <text
+                x={VIEW_WIDTH / 2 + 3}
+                y={VIEW_HEIGHT / 2 - miles * pixelsPerMile - 3}
+                fontSize="9"
+                fill="#6b7280"
+              >
+                {miles} mi
+              </text>
+            </g>
+          ))}
+
+          <circle
+            cx={VIEW_WIDTH / 2}
+            cy={VIEW_HEIGHT / 2}
+            r="5"
+            fill="#2563eb"
+            stroke="#ffffff"
+            strokeWidth="2"
+          >
+            <title>ZIP Code: {zipCode}</title>
+          </circle>
+
+          {points.map(({ store, x, y, distance }) => {
+            const isFocused = store._id === focusedStoreId;
+            return (
+              <circle
+                key={store._id}
+                {...toView(x, y)}
+                r={isFocused ? 8 : 6}
+                fill={isFocused ? "#16a34a" : "#dc2626"}
+                stroke="#ffffff"
+                strokeWidth="2"
+                className="cursor-pointer"
+                onClick={() => onStoreSelect?.(store._id)}
+              >
+                <title>
+                  {store.name} ({distance.toFixed(1)} mi)
+                </title>
+              </circle>
+            );
+          })}
+        </svg>
+        <p className="absolute bottom-1 right-2 text-[10px] text-gray-400">
+          Offline map, positions approximate
+        </p>
+      </div>
+
+      {focused && (
+        <div className="mt-3 p-3 border rounded-lg text-sm">
+          <p className="font-medium">{focused.store.name}</p>
+          <p className="text-xs text-gray-500">
+            {focused.store.address.formattedAddress} ·{" "}
+            {focused.distance.toFixed(1)} mi from the ZIP centre
+          </p>
+          <p className="mt-1 text-xs text-gray-600">
+            {focusedHours ? `Today: ${focusedHours}` : "Hours not listed"}
+            {focused.store.rating ? ` · ★ ${focused.store.rating}` : ""}
+          </p>
+          <StoreListItems store={focused.store} listItems={listItems} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StoreListItems({
+  store,
+  listItems,
+}: {
+  store: StoreType;
+  listItems: ProductType[];
+}) {
+  const cheapestItems = getCheapestItemsAtStore(store, listItems);
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-medium text-gray-700">
+        Cheapest here from your list
+      </p>
+      {cheapestItems.length > 0 ? (
+        <ul className="mt-1 text-xs text-gray-600">
+          {cheapestItems.map((item) => (
+            <li key={item.id}>
+              {item.name}: ${item.lowestPrice?.price.toFixed(2)}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-500">
+          None of your list items are cheapest here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { MapPin, Route } from "lucide-react";
+import type { LatLng } from "@/lib/geo";
+import { planTrip } from "@/lib/trip-planner";
+import type { ProductType, StoreType } from "@/lib/types";
+
+const STORE_LIMITS = [1, 2, 3, 4];
+
+interface TripPlannerProps {
+  items: ProductType[];
+  stores: StoreType[];
+  // Where the trip starts and ends, usually the ZIP code's centre
+  origin: LatLng | null;
+}
+
+export default function TripPlanner({
+  items,
+  stores,
+  origin,
+}: TripPlannerProps) {
+  const [maxStores, setMaxStores] = useState(2);
+  const [costPerExtraStop, setCostPerExtraStop] = useState("3");
+  const [costPerMile, setCostPerMile] = useState("0.50");
+
+  const plan = useMemo(
+    () =>
+      planTrip(items, stores, {
+        maxStores,
+        costPerExtraStop: Math.max(0, Number.parseFloat(costPerExtraStop) || 0),
+        costPerMile: Math.max(0, Number.parseFloat(costPerMile) || 0),
+        origin,
+      }),
+    [items, stores, maxStores, costPerExtraStop, costPerMile, origin]
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="mb-4">
+        <h2 className="text-lg font-medium text-gray-900 flex items-center">
+          <Route className="h-5 w-5 mr-2 text-green-600" />
+          Plan My Trip
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Find the stores to visit for your list, weighing lower prices against
+          extra stops and driving.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div>
+          <label
+            htmlFor="tripMaxStores"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Visit at most
+          </label>
+          <select
+            id="tripMaxStores"
+            value={maxStores}
+            onChange={(e) => setMaxStores(Number(e.target.value))}
+            className="mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+          >
+            {STORE_LIMITS.map((limit) => (
+              <option key={limit} value={limit}>
+                {limit} {limit === 1 ? "store" : "stores"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="tripCostPerStop"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Each extra stop is worth ($)
+          </label>
+          <input
+            type="number"
+            id="tripCostPerStop"
+            value={costPerExtraStop}
+            onChange={(e) => setCostPerExtraStop(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            step="0.5"
+            min="0"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="tripCostPerMile"
+            className="block text-sm font-medium text-gray-700"
+          >
+            Driving cost per mile ($)
+          </label>
+          <input
+            type="number"
+            id="tripCostPerMile"
+            value={costPerMile}
+            onChange={(e) => setCostPerMile(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm"
+            step="0.05"
+            min="0"
+            disabled={!origin}
+          />
+        </div>
+      </div>
+
+      {plan ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {plan.stops.map((stop, index) => (
+              <div key={stop.store._id} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">
+                      {plan.stops.length > 1 && `${index + 1}. `}
+                      {stop.store.name}
+                    </p>
+                    <p className="text-xs text-gray-500 flex items-center">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {stop.store.address.formattedAddress}
+                    </p>
+                  </div>
+                  <p className="font-medium text-green-600">
+                    ${stop.subtotal.toFixed(2)}
+                  </p>
+                </div>
+                <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                  {stop.items.map(({ item, quantity, price }) => (
+                    <li key={item.id} className="flex justify-between">
+                      <span>
+                        {item.name}
+                        {quantity > 1 && ` × ${quantity}`}
+                      </span>
+                      <span>${(price * quantity).toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 p-4 bg-green-50 rounded-lg text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-700">Items total</span>
+              <span className="font-medium">${plan.itemsTotal.toFixed(2)}</span>
+            </div>
+            {plan.distanceMiles !== null && (
+              <div className="flex justify-between mt-1">
+                <span className="text-gray-700">Round trip</span>
+                <span className="font-medium">
+                  {plan.distanceMiles.toFixed(1)} mi
+                </span>
+              </div>
+            )}
+            {plan.bestSingleStore && (
+              <div className="flex justify-between mt-1">
+                <span className="text-gray-700">
+                  Saved vs. everything at {plan.bestSingleStore.store.name}
+                </span>
+                <span className="font-medium text-green-700">
+                  ${plan.savings.toFixed(2)}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {plan.unassignedItems.length > 0 && (
+            <p className="mt-3 text-xs text-gray-500">
+              Not priced at these stores:{" "}
+              {plan.unassignedItems.map((item) => item.name).join(", ")}
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-gray-500">
+          None of the nearby stores have prices for your list items yet.
+        </p>
+      )}
+    </div>
+  );
+}
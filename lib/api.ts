@@ -1,5 +1,46 @@
 // Helper functions for API calls
 
+import type {
+  AuthResponse,
+  Budget,
+  BulkBuyCalculationInput,
+  CalculationHistory,
+  DashboardDataType,
+  DataFetchStatus,
+  ListItemUpdate,
+  NewIngredient,
+  NewPantryItem,
+  NewPurchase,
+  PantryItemUpdate,
+  PantryItemWithTrends,
+  PriceTrendType,
+  ProductType,
+  ProfileUpdate,
+  Purchase,
+  Recipe,
+  RegisterInput,
+  RegisterResponse,
+  SavedLocation,
+  StorageLocation,
+  UserType,
+} from "@/lib/types";
+import {
+  budgetSchema,
+  calculationHistorySchema,
+  pantryItemWithTrendsSchema,
+  parseDashboard,
+  parseList,
+  parseResponse,
+  priceTrendSchema,
+  productSchema,
+  purchaseSchema,
+  recipeSchema,
+  savedLocationSchema,
+  storageLocationSchema,
+  userSchema,
+} from "@/lib/schemas";
+import { clearSession, storeSession } from "@/lib/session";
+
 /**
  * Get the API URL from environment variables
  */
@@ -9,13 +50,7 @@ export const getApiUrl = (path: string): string => {
   return `${baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
 };
 
-/**
- * Make an authenticated API request
- */
-export const fetchWithAuth = async (
-  path: string,
-  options: RequestInit = {}
-): Promise<Response> => {
+const sendWithToken = (path: string, options: RequestInit) => {
   const token = localStorage.getItem("token");
 
   const headers = {
@@ -29,3 +64,448 @@ export const fetchWithAuth = async (
     headers,
   });
 };
+
+// Shared so that parallel requests failing with 401 trigger a single refresh
+let refreshInFlight: Promise<boolean> | null = null;
+let isRedirectingToLogin = false;
+
+/**
+ * Exchange the refresh token for a new access token. Resolves to false when
+ * there is no refresh token or the backend rejects it.
+ */
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      const refreshToken = localStorage.getItem("refreshToken");
+      if (!refreshToken) return false;
+
+      try {
+        const response = await fetch(getApiUrl("/users/refresh-token"), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+
+        if (!response.ok) return false;
+
+        const data = await response.json();
+        if (!data.token) return false;
+
+        await storeSession(data);
+        return true;
+      } catch (error) {
+        console.error("Error refreshing session:", error);
+        return false;
+      }
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+};
+
+/**
+ * Drop the expired session and send the user to the login page, which
+ * shows `message` and returns them to the current page after sign in
+ */
+const redirectToLogin = async () => {
+  if (isRedirectingToLogin) return;
+  isRedirectingToLogin = true;
+
+  // The cookie has to go first or middleware bounces /login back here
+  await clearSession();
+
+  const params = new URLSearchParams({
+    message: "Your session has expired. Please sign in again.",
+    redirect: `${window.location.pathname}${window.location.search}`,
+  });
+  window.location.assign(`/login?${params.toString()}`);
+};
+
+/**
+ * Make an authenticated API request. An expired session (401) is refreshed
+ * once and the request retried; if that fails the user is sent to /login.
+ */
+export const fetchWithAuth = async (
+  path: string,
+  options: RequestInit = {}
+): Promise<Response> => {
+  const hadToken = !!localStorage.getItem("token");
+  const response = await sendWithToken(path, options);
+
+  if (response.status !== 401 || !hadToken) {
+    return response;
+  }
+
+  if (await refreshSession()) {
+    const retried = await sendWithToken(path, options);
+    if (retried.status !== 401) {
+      return retried;
+    }
+  }
+
+  await redirectToLogin();
+  return response;
+};
+
+/**
+ * Make an API request that doesn't need a session (sign in, sign up)
+ */
+const fetchPublic = (path: string, options: RequestInit = {}) =>
+  fetch(getApiUrl(path), {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options.headers,
+    },
+  });
+
+/**
+ * Error thrown for any non-2xx API response. `message` is the backend's
+ * message when it sent one, otherwise the fallback for that route.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(message: string, status: number, data: any = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * Make an API request and return the parsed JSON body, throwing an
+ * ApiError when the response is not ok
+ */
+const request = async <T = any>(
+  path: string,
+  fallbackMessage: string,
+  { auth = true, ...options }: RequestInit & { auth?: boolean } = {}
+): Promise<T> => {
+  const response = auth
+    ? await fetchWithAuth(path, options)
+    : await fetchPublic(path, options);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(data.message || fallbackMessage, response.status, data);
+  }
+
+  return data as T;
+};
+
+const jsonPost = (body: unknown): RequestInit => ({
+  method: "POST",
+  body: body === undefined ? undefined : JSON.stringify(body),
+});
+
+const post = <T = any>(path: string, fallbackMessage: string, body?: unknown) =>
+  request<T>(path, fallbackMessage, jsonPost(body));
+
+// For the sign in / sign up routes, which must not trigger a session refresh
+const publicPost = <T = any>(
+  path: string,
+  fallbackMessage: string,
+  body?: unknown
+) => request<T>(path, fallbackMessage, { ...jsonPost(body), auth: false });
+
+const zipQuery = (zipCode?: string) =>
+  zipCode ? `?zipCode=${encodeURIComponent(zipCode)}` : "";
+
+/**
+ * Typed client with one method per backend route. Responses are validated
+ * against the schemas in lib/schemas before they reach components.
+ */
+export const api = {
+  // Users and authentication
+
+  login: (credentials: { email: string; password: string }) =>
+    publicPost<AuthResponse>(
+      "/users/login",
+      "Invalid credentials",
+      credentials
+    ),
+
+  register: (input: RegisterInput) =>
+    publicPost<RegisterResponse>(
+      "/users/register",
+      "Failed to create account",
+      input
+    ),
+
+  verifyEmail: (email: string, code: string) =>
+    publicPost<AuthResponse>(
+      "/users/verify-email",
+      "Invalid verification code",
+      {
+        email,
+        code,
+      }
+    ),
+
+  resendVerification: (email: string) =>
+    publicPost<{ code?: string }>(
+      "/users/resend-verification",
+      "Failed to resend verification code",
+      { email }
+    ),
+
+  checkEmailVerification: async (email: string) => {
+    const data = await publicPost<{ verified: boolean }>(
+      "/users/check-email-verification",
+      "Failed to check email verification",
+      { email }
+    );
+    return data.verified;
+  },
+
+  getDataFetchStatus: (userId: string) =>
+    request<DataFetchStatus>(
+      `/users/data-fetch-status/${userId}`,
+      "Failed to check data loading status",
+      { auth: false }
+    ),
+
+  getDataFetchStatusByEmail: (email: string) =>
+    publicPost<DataFetchStatus>(
+      "/users/data-fetch-status-by-email",
+      "Failed to check data fetch status",
+      { email }
+    ),
+
+  updateProfile: async (changes: ProfileUpdate): Promise<UserType> => {
+    const data = await request("/users/me", "Failed to update your profile", {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+    return parseResponse(userSchema, data.user, "profile");
+  },
+
+  getLocations: async (): Promise<SavedLocation[]> => {
+    const data = await request(
+      "/users/me/locations",
+      "Failed to fetch your saved locations"
+    );
+    return parseList(savedLocationSchema, data.locations, "saved locations");
+  },
+
+  addLocation: async (
+    location: Omit<SavedLocation, "id">
+  ): Promise<SavedLocation> => {
+    const data = await post(
+      "/users/me/locations",
+      "Failed to save location",
+      location
+    );
+    return parseResponse(savedLocationSchema, data.location, "saved location");
+  },
+
+  deleteLocation: (locationId: string) =>
+    request(`/users/me/locations/${locationId}`, "Failed to delete location", {
+      method: "DELETE",
+    }),
+
+  // Null until the user sets a budget
+  getBudget: async (): Promise<Budget | null> => {
+    const data = await request(
+      "/users/me/budget",
+      "Failed to fetch your budget"
+    );
+    return data.budget
+      ? parseResponse(budgetSchema, data.budget, "budget")
+      : null;
+  },
+
+  saveBudget: async (budget: Budget): Promise<Budget> => {
+    const data = await request("/users/me/budget", "Failed to save budget", {
+      method: "PUT",
+      body: JSON.stringify(budget),
+    });
+    return parseResponse(budgetSchema, data.budget, "budget");
+  },
+
+  // Dashboard. Both routes default to the profile ZIP code when no other
+  // location is given.
+
+  getDashboard: async (zipCode?: string): Promise<DashboardDataType> => {
+    const data = await request(
+      `/dashboard${zipQuery(zipCode)}`,
+      "Failed to fetch dashboard data"
+    );
+    return parseDashboard(data);
+  },
+
+  getPriceTrends: async (zipCode?: string): Promise<PriceTrendType[]> => {
+    const data = await request(
+      `/dashboard/price-trends${zipQuery(zipCode)}`,
+      "Failed to fetch price trends"
+    );
+    return parseList(priceTrendSchema, data.trends, "price trends");
+  },
+
+  // Search and shopping list
+
+  searchProducts: async (query: string): Promise<ProductType[]> => {
+    const data = await post("/search/products", "Search failed", { query });
+    return parseList(productSchema, data.products, "search results");
+  },
+
+  getMyList: async (): Promise<ProductType[]> => {
+    const data = await request("/search/my-list", "Failed to fetch your list");
+    return parseList(productSchema, data.items, "list items");
+  },
+
+  addToList: (productId: string, quantity?: number) =>
+    post("/search/add-to-list", "Failed to add item to your list", {
+      productId,
+      quantity,
+    }),
+
+  removeFromList: (productId: string) =>
+    post("/search/remove-from-list", "Failed to remove item from your list", {
+      productId,
+    }),
+
+  updateListItem: (productId: string, changes: ListItemUpdate) =>
+    request(
+      `/search/my-list/${productId}`,
+      "Failed to update the item on your list",
+      { method: "PATCH", body: JSON.stringify(changes) }
+    ),
+
+  // Pantry
+
+  getMyPantryItems: async (): Promise<ProductType[]> => {
+    const data = await request(
+      "/pantry-items/my-pantry",
+      "Failed to fetch your pantry items"
+    );
+    return parseList(productSchema, data.pantryItems, "pantry items");
+  },
+
+  getMyPantryTrends: async (): Promise<PantryItemWithTrends[]> => {
+    const data = await request(
+      "/pantry-items/my-pantry/trends",
+      "Failed to fetch your pantry trends"
+    );
+    return parseList(
+      pantryItemWithTrendsSchema,
+      data.pantryTrends,
+      "pantry trends"
+    );
+  },
+
+  addPantryItem: (item: NewPantryItem) =>
+    post("/pantry-items/my-pantry", "Failed to add item to your pantry", item),
+
+  updatePantryItem: (itemId: string, changes: PantryItemUpdate) =>
+    request(
+      `/pantry-items/my-pantry/${itemId}`,
+      "Failed to update the item in your pantry",
+      { method: "PATCH", body: JSON.stringify(changes) }
+    ),
+
+  deletePantryItem: (itemId: string) =>
+    request(
+      `/pantry-items/my-pantry/${itemId}`,
+      "Failed to remove the item from your pantry",
+      { method: "DELETE" }
+    ),
+
+  getStorageLocations: async (): Promise<StorageLocation[]> => {
+    const data = await request(
+      "/pantry-items/storage-locations",
+      "Failed to fetch your storage locations"
+    );
+    return parseList(
+      storageLocationSchema,
+      data.storageLocations,
+      "storage locations"
+    );
+  },
+
+  addStorageLocation: async (
+    location: Omit<StorageLocation, "id">
+  ): Promise<StorageLocation> => {
+    const data = await post(
+      "/pantry-items/storage-locations",
+      "Failed to save storage location",
+      location
+    );
+    return parseResponse(
+      storageLocationSchema,
+      data.storageLocation,
+      "storage location"
+    );
+  },
+
+  deleteStorageLocation: (locationId: string) =>
+    request(
+      `/pantry-items/storage-locations/${locationId}`,
+      "Failed to delete storage location",
+      { method: "DELETE" }
+    ),
+
+  // Purchases
+
+  getPurchases: async (): Promise<Purchase[]> => {
+    const data = await request("/purchases", "Failed to fetch your purchases");
+    return parseList(purchaseSchema, data.purchases, "purchases");
+  },
+
+  addPurchases: (purchases: NewPurchase[]) =>
+    post("/purchases", "Failed to save your purchases", { purchases }),
+
+  deletePurchase: (purchaseId: string) =>
+    request(`/purchases/${purchaseId}`, "Failed to delete purchase", {
+      method: "DELETE",
+    }),
+
+  // Bulk buy calculator
+
+  getBulkBuyHistory: async (): Promise<CalculationHistory[]> => {
+    const data = await request(
+      "/bulk-buy/history",
+      "Failed to fetch calculation history"
+    );
+    return parseList(
+      calculationHistorySchema,
+      data.calculations,
+      "saved calculations"
+    );
+  },
+
+  calculateBulkBuy: async (
+    input: BulkBuyCalculationInput
+  ): Promise<CalculationHistory> => {
+    const data = await post(
+      "/bulk-buy/calculate",
+      "Failed to calculate savings",
+      input
+    );
+    return parseResponse(
+      calculationHistorySchema,
+      data.calculation,
+      "calculation"
+    );
+  },
+
+  // Recipes
+
+  getRecipes: async (): Promise<Recipe[]> => {
+    const data = await request("/recipes", "Failed to fetch recipes");
+    return parseList(recipeSchema, data.recipes, "recipes");
+  },
+
+  createRecipe: (recipe: { name: string; ingredients: NewIngredient[] }) =>
+    post("/recipes", "Failed to save recipe", recipe),
+
+  deleteRecipe: (recipeId: string) =>
+    request(`/recipes/${recipeId}`, "Failed to delete recipe", {
+      method: "DELETE",
+    }),
+};
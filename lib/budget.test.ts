@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { summarizeBudget } from "./budget";
+import type { Purchase } from "./types";
+
+const purchase = (purchasedAt: Date, price: number): Purchase => ({
+  id: purchasedAt.toISOString(),
+  itemName: "Milk",
+  store: "Kroger",
+  price,
+  quantity: 1,
+  purchasedAt: purchasedAt.toISOString(),
+});
+
+describe("summarizeBudget", () => {
+  const budget = { monthlyLimit: 100, envelopes: {} };
+
+  it("counts purchases logged for later today", () => {
+    const now = new Date(2026, 9, 19, 9, 0);
+    const purchases = [purchase(new Date(2026, 9, 19, 12, 0), 3.5)];
+    expect(summarizeBudget(budget, purchases, [], [], now).total.spent).toBe(
+      3.5
+    );
+  });
+
+  it("leaves out other months and future days", () => {
+    const now = new Date(2026, 9, 19, 9, 0);
+    const purchases = [
+      purchase(new Date(2026, 8, 30, 12, 0), 1),
+      purchase(new Date(2026, 9, 1, 12, 0), 2),
+      purchase(new Date(2026, 9, 20, 12, 0), 4),
+    ];
+    expect(summarizeBudget(budget, purchases, [], [], now).total.spent).toBe(2);
+  });
+});
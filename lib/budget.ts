@@ -0,0 +1,137 @@
+// Monthly budget tracking. Spend comes from the purchase log and what's
+// planned from My List at today's lowest prices, both split into the same
+// pantry categories the envelopes use.
+
+import { PANTRY_CATEGORIES, parsePantryCategory } from "@/lib/pantry";
+import type { Budget, ProductType, Purchase } from "@/lib/types";
+
+export type BudgetStatus = "ok" | "atRisk" | "over";
+
+export type EnvelopeSummary = {
+  // A pantry category, or "Total" for the whole budget
+  category: string;
+  limit: number;
+  // Logged purchases so far this month
+  spent: number;
+  // My List at its lowest known prices
+  planned: number;
+  // Where the month is heading: the spending pace carried to month end, or
+  // spent plus planned if that's higher
+  projected: number;
+  status: BudgetStatus;
+};
+
+export type BudgetSummary = {
+  total: EnvelopeSummary;
+  // Categories with an envelope, in PANTRY_CATEGORIES order
+  envelopes: EnvelopeSummary[];
+  daysElapsed: number;
+  daysInMonth: number;
+};
+
+// Below this much of the month, pace is too noisy to project from
+const MIN_DAYS_FOR_PACE = 3;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * The pantry category of a purchase, taken from the list or pantry item it
+ * was bought as. Purchases that match neither count as "Pantry".
+ */
+export const getPurchaseCategory = (
+  purchase: Purchase,
+  items: ProductType[]
+): string => {
+  const item =
+    items.find((entry) => entry.id === purchase.productId) ??
+    items.find(
+      (entry) => normalizeName(entry.name) === normalizeName(purchase.itemName)
+    );
+  return parsePantryCategory(item?.category ?? "");
+};
+
+const statusOf = (
+  limit: number,
+  spent: number,
+  projected: number
+): BudgetStatus =>
+  spent > limit ? "over" : projected > limit ? "atRisk" : "ok";
+
+/**
+ * Spend, plans and projections for the month containing `now`, overall and
+ * per envelope. Items are the user's list and pantry, used to put purchases
+ * in a category.
+ */
+export const summarizeBudget = (
+  budget: Budget,
+  purchases: Purchase[],
+  listItems: ProductType[],
+  pantryItems: ProductType[],
+  now: Date = new Date()
+): BudgetSummary => {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  // Purchases are logged at noon on the day, so all of today counts
+  const dayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const daysInMonth = new Date(
+    now.getFullYear(),
+    now.getMonth() + 1,
+    0
+  ).getDate();
+  const daysElapsed = now.getDate();
+
+  const spentBy: Record<string, number> = {};
+  const plannedBy: Record<string, number> = {};
+  const add = (totals: Record<string, number>, key: string, amount: number) => {
+    totals[key] = (totals[key] ?? 0) + amount;
+  };
+
+  const categorized = [...listItems, ...pantryItems];
+  for (const purchase of purchases) {
+    const purchasedAt = new Date(purchase.purchasedAt);
+    if (purchasedAt < monthStart || purchasedAt >= dayEnd) continue;
+    const amount = purchase.price * purchase.quantity;
+    add(spentBy, getPurchaseCategory(purchase, categorized), amount);
+    add(spentBy, "Total", amount);
+  }
+  for (const item of listItems) {
+    if (!item.lowestPrice) continue;
+    const amount = item.lowestPrice.price * (item.quantity || 1);
+    add(plannedBy, parsePantryCategory(item.category), amount);
+    add(plannedBy, "Total", amount);
+  }
+
+  const summarize = (category: string, limit: number): EnvelopeSummary => {
+    const spent = spentBy[category] ?? 0;
+    const planned = plannedBy[category] ?? 0;
+    const paced =
+      daysElapsed >= MIN_DAYS_FOR_PACE
+        ? (spent / daysElapsed) * daysInMonth
+        : spent;
+    const projected = Math.max(paced, spent + planned);
+    return {
+      category,
+      limit,
+      spent,
+      planned,
+      projected,
+      status: statusOf(limit, spent, projected),
+    };
+  };
+
+  return {
+    total: summarize("Total", budget.monthlyLimit),
+    envelopes: PANTRY_CATEGORIES.filter(
+      (category) => (budget.envelopes[category] ?? 0) > 0
+    ).map((category) => summarize(category, budget.envelopes[category])),
+    daysElapsed,
+    daysInMonth,
+  };
+};
+
+/**
+ * Dollars of the monthly limit not yet given to an envelope. Negative when
+ * the envelopes add up to more than the limit.
+ */
+export const unallocated = (budget: Budget): number =>
+  budget.monthlyLimit -
+  Object.values(budget.envelopes).reduce((sum, amount) => sum + amount, 0);
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getExpiringItems,
+  getWaste,
+  loadWasteLog,
+  recordThrownOut,
+} from "./expiry";
+import type { ProductType } from "./types";
+
+const now = new Date(2026, 9, 19, 9, 0);
+
+const item = (id: string, quantity: number, expiresAt: string) =>
+  ({
+    id,
+    name: id,
+    quantity,
+    expiresAt,
+    lowestPrice: { price: 2, store: "Kroger" },
+  }) as ProductType;
+
+const stored = new Map<string, string>();
+
+beforeEach(() => {
+  stored.clear();
+  globalThis.localStorage = {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => void stored.set(key, value),
+  } as Storage;
+});
+
+describe("getExpiringItems", () => {
+  it("leaves out used-up items", () => {
+    const items = [
+      item("milk", 1, "2026-10-20"),
+      item("eggs", 0, "2026-10-18"),
+    ];
+    expect(getExpiringItems(items, now).map(({ id }) => id)).toEqual(["milk"]);
+  });
+});
+
+describe("getWaste", () => {
+  it("counts expired stock at its quantity, skipping used-up items", () => {
+    const items = [
+      item("milk", 2, "2026-10-18"),
+      item("eggs", 0, "2026-10-18"),
+      item("rice", 1, "2026-12-01"),
+    ];
+    expect(getWaste(items, [], [], now)).toMatchObject({ units: 2, value: 4 });
+  });
+
+  it("keeps counting expired stock after it's thrown out", () => {
+    const milk = item("milk", 3, "2026-10-18");
+    const fresh = item("rice", 1, "2026-12-01");
+    const log = recordThrownOut("user", [milk, fresh], [], now);
+
+    expect(log).toHaveLength(1);
+    expect(getWaste([], [], log, now)).toMatchObject({ units: 3, value: 6 });
+  });
+
+  it("forgets thrown-out stock after the waste window", () => {
+    recordThrownOut("user", [item("milk", 1, "2026-10-18")], [], now);
+    expect(loadWasteLog("user", new Date(2026, 10, 30))).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+// Best-by dates for pantry items: defaults by category, how close an item is
+// to expiring, and what expired stock cost. Expired stock that's thrown out
+// is logged in localStorage per account, so it still counts as waste.
+
+import { parsePantryCategory, type PantryCategory } from "@/lib/pantry";
+import { getPurchasesOf } from "@/lib/purchases";
+import type { ProductType, Purchase } from "@/lib/types";
+
+/**
+ * Typical shelf life from purchase, in days. Null for categories that don't
+ * go off.
+ */
+export const SHELF_LIFE_DAYS: Record<PantryCategory, number | null> = {
+  Pantry: 365,
+  Produce: 7,
+  Dairy: 14,
+  Meat: 4,
+  Frozen: 180,
+  Bakery: 5,
+  Beverages: 180,
+  Snacks: 90,
+  Household: null,
+};
+
+// Items this close to their best-by date are flagged
+export const EXPIRING_SOON_DAYS = 5;
+
+// Thrown-out stock counts as waste for this long
+export const WASTE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WasteEntry = {
+  name: string;
+  units: number;
+  value: number;
+  thrownOutAt: string;
+};
+
+const wasteKey = (userId: string) => `pantryWaste:${userId}`;
+
+export type ExpiryStatus = "expired" | "expiringSoon" | "fresh";
+
+/**
+ * A date as YYYY-MM-DD in local time, the format date inputs use
+ */
+export const toDateInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Read a stored date. Plain YYYY-MM-DD dates are taken as local midnight
+ * rather than UTC, so they don't land on the day before.
+ */
+export const parseDate = (value: string): Date | null => {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * The best-by date a category defaults to for something bought on
+ * purchasedAt, or null when the category doesn't expire
+ */
+export const getDefaultExpiry = (
+  category: string,
+  purchasedAt: Date
+): Date | null => {
+  const days = SHELF_LIFE_DAYS[parsePantryCategory(category)];
+  if (days === null) return null;
+  const expiry = new Date(purchasedAt);
+  expiry.setDate(expiry.getDate() + days);
+  return expiry;
+};
+
+/**
+ * Whole days until an item's best-by date, negative once it's passed, or
+ * null when it has none
+ */
+export const daysUntilExpiry = (
+  item: ProductType,
+  now: Date = new Date()
+): number | null => {
+  const expiry = item.expiresAt ? parseDate(item.expiresAt) : null;
+  if (!expiry) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const expiryDay = new Date(
+    expiry.getFullYear(),
+    expiry.getMonth(),
+    expiry.getDate()
+  );
+  return Math.round((expiryDay.getTime() - today.getTime()) / DAY_MS);
+};
+
+/**
+ * Null for items without a best-by date. An item is still good on its
+ * best-by day.
+ */
+export const getExpiryStatus = (
+  item: ProductType,
+  now: Date = new Date()
+): ExpiryStatus | null => {
+  const days = daysUntilExpiry(item, now);
+  if (days === null) return null;
+  if (days < 0) return "expired";
+  return days <= EXPIRING_SOON_DAYS ? "expiringSoon" : "fresh";
+};
+
+/**
+ * "Expired 3 days ago", "Best by today", "Best by in 2 days"
+ */
+export const describeExpiry = (days: number): string => {
+  if (days < -1) return `Expired ${-days} days ago`;
+  if (days === -1) return "Expired yesterday";
+  if (days === 0) return "Best by today";
+  if (days === 1) return "Best by tomorrow";
+  return `Best by in ${days} days`;
+};
+
+// Used-up items stay in the pantry at zero, but there's nothing left to go off
+const isInStock = (item: ProductType) => (item.quantity ?? 1) > 0;
+
+const isExpiredStock = (item: ProductType, now: Date) =>
+  isInStock(item) && getExpiryStatus(item, now) === "expired";
+
+/**
+ * Expired and soon-to-expire items, soonest first
+ */
+export const getExpiringItems = (
+  items: ProductType[],
+  now: Date = new Date()
+): ProductType[] =>
+  items
+    .filter((item) => {
+      const status = getExpiryStatus(item, now);
+      return (
+        isInStock(item) && (status === "expired" || status === "expiringSoon")
+      );
+    })
+    .sort(
+      (a, b) => (daysUntilExpiry(a, now) ?? 0) - (daysUntilExpiry(b, now) ?? 0)
+    );
+
+// What the user last paid for an item, or its lowest current price when it
+// was never logged as a purchase
+const getUnitValue = (item: ProductType, purchases: Purchase[]): number => {
+  const lastPurchase = getPurchasesOf(purchases, item).sort(
+    (a, b) =>
+      new Date(b.purchasedAt).getTime() - new Date(a.purchasedAt).getTime()
+  )[0];
+  return lastPurchase?.price ?? item.lowestPrice?.price ?? 0;
+};
+
+const isRecentWaste = (entry: WasteEntry, now: Date) =>
+  now.getTime() - new Date(entry.thrownOutAt).getTime() <=
+  WASTE_WINDOW_DAYS * DAY_MS;
+
+/**
+ * Expired stock thrown out on this device in the last WASTE_WINDOW_DAYS
+ */
+export const loadWasteLog = (
+  userId: string,
+  now: Date = new Date()
+): WasteEntry[] => {
+  try {
+    const stored = localStorage.getItem(wasteKey(userId));
+    const log: WasteEntry[] = stored ? JSON.parse(stored) : [];
+    return log.filter((entry) => isRecentWaste(entry, now));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Log the expired stock among items being removed from the pantry and save
+ * the result. Items that haven't expired or are used up aren't waste.
+ */
+export const recordThrownOut = (
+  userId: string,
+  items: ProductType[],
+  purchases: Purchase[],
+  now: Date = new Date()
+): WasteEntry[] => {
+  const thrownOut = items
+    .filter((item) => isExpiredStock(item, now))
+    .map((item) => {
+      const units = item.quantity ?? 1;
+      return {
+        name: item.name,
+        units,
+        value: getUnitValue(item, purchases) * units,
+        thrownOutAt: now.toISOString(),
+      };
+    });
+  const log = [...loadWasteLog(userId, now), ...thrownOut];
+  localStorage.setItem(wasteKey(userId), JSON.stringify(log));
+  return log;
+};
+
+/**
+ * Expired stock still in the pantry, plus what was thrown out recently, and
+ * what it all cost
+ */
+export const getWaste = (
+  items: ProductType[],
+  purchases: Purchase[],
+  thrownOut: WasteEntry[] = [],
+  now: Date = new Date()
+): { items: ProductType[]; units: number; value: number } => {
+  const expired = items.filter((item) => isExpiredStock(item, now));
+  let units = 0;
+  let value = 0;
+  for (const item of expired) {
+    const quantity = item.quantity ?? 1;
+    units += quantity;
+    value += getUnitValue(item, purchases) * quantity;
+  }
+  for (const entry of thrownOut) {
+    if (!isRecentWaste(entry, now)) continue;
+    units += entry.units;
+    value += entry.value;
+  }
+  return { items: expired, units, value };
+};
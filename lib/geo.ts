@@ -0,0 +1,53 @@
+// Distance and projection helpers for store coordinates. These work at the
+// scale of a shopping area (a few dozen miles), not across continents.
+
+export type LatLng = {
+  lat: number;
+  lng: number;
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69.05;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points, in miles
+ */
+export const distanceInMiles = (a: LatLng, b: LatLng): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Average position of the points, or null when there are none
+ */
+export const getCentroid = (points: LatLng[]): LatLng | null => {
+  if (points.length === 0) return null;
+  const sum = points.reduce(
+    (total, point) => ({
+      lat: total.lat + point.lat,
+      lng: total.lng + point.lng,
+    }),
+    { lat: 0, lng: 0 }
+  );
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+};
+
+/**
+ * Offset of a point from the origin in miles, with x east and y north.
+ * An equirectangular projection, which is close enough for a local map.
+ */
+export const projectToMiles = (point: LatLng, origin: LatLng) => ({
+  x:
+    (point.lng - origin.lng) *
+    MILES_PER_DEGREE_LAT *
+    Math.cos(toRadians(origin.lat)),
+  y: (point.lat - origin.lat) * MILES_PER_DEGREE_LAT,
+});
@@ -0,0 +1,157 @@
+// Run-out forecasts for pantry items. Usage is learned from how quantities
+// go down between pantry refreshes, falling back to the monthly usage the
+// backend has on file. Snapshots are kept in localStorage per account.
+
+export type QuantitySnapshot = {
+  quantity: number;
+  at: string;
+};
+
+// Snapshots by pantry item id, oldest first
+export type QuantityHistory = Record<string, QuantitySnapshot[]>;
+
+export type UsageSource = "learned" | "declared";
+
+export type PantryForecast = {
+  // Units per month; null when there's nothing to go on
+  monthlyUsage: number | null;
+  usageSource: UsageSource | null;
+  // Null when usage is unknown
+  daysLeft: number | null;
+  runsOutAt: Date | null;
+};
+
+const DAYS_PER_MONTH = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Usage learned over less than this is mostly noise
+const MIN_LEARNING_DAYS = 7;
+// Only the most recent snapshots per item are kept
+const MAX_SNAPSHOTS = 30;
+
+const historyKey = (userId: string) => `pantryUsage:${userId}`;
+
+/**
+ * Snapshots recorded on this device so far
+ */
+export const loadQuantityHistory = (userId: string): QuantityHistory => {
+  try {
+    const stored = localStorage.getItem(historyKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Add a snapshot for each item whose quantity differs from its last one and
+ * save the result. Items no longer in the pantry are forgotten.
+ */
+export const recordPantryQuantities = (
+  userId: string,
+  items: { id: string; quantity?: number }[],
+  now: Date = new Date()
+): QuantityHistory => {
+  const previous = loadQuantityHistory(userId);
+  const history: QuantityHistory = {};
+
+  for (const item of items) {
+    const snapshots = previous[item.id] ?? [];
+    const quantity = item.quantity ?? 1;
+    const last = snapshots[snapshots.length - 1];
+    history[item.id] =
+      last && last.quantity === quantity
+        ? snapshots
+        : [...snapshots, { quantity, at: now.toISOString() }].slice(
+            -MAX_SNAPSHOTS
+          );
+  }
+
+  localStorage.setItem(historyKey(userId), JSON.stringify(history));
+  return history;
+};
+
+/**
+ * Units used per month, judged by every drop in quantity since the first
+ * snapshot. Restocks are ignored. Null until there's enough history.
+ */
+export const learnMonthlyUsage = (
+  snapshots: QuantitySnapshot[],
+  now: Date = new Date()
+): number | null => {
+  if (snapshots.length < 2) return null;
+
+  const days = (now.getTime() - new Date(snapshots[0].at).getTime()) / DAY_MS;
+  if (days < MIN_LEARNING_DAYS) return null;
+
+  let used = 0;
+  for (let i = 1; i < snapshots.length; i++) {
+    used += Math.max(0, snapshots[i - 1].quantity - snapshots[i].quantity);
+  }
+  return used > 0 ? (used / days) * DAYS_PER_MONTH : null;
+};
+
+/**
+ * Days the quantity on hand lasts at a monthly usage
+ */
+export const daysOfStock = (quantity: number, monthlyUsage: number): number =>
+  (quantity / monthlyUsage) * DAYS_PER_MONTH;
+
+/**
+ * When an item runs out. Learned usage wins over the declared figure, which
+ * is often a guess made when the item was added.
+ */
+export const forecastPantryItem = (
+  quantity: number,
+  declaredUsage: number | undefined,
+  snapshots: QuantitySnapshot[] = [],
+  now: Date = new Date()
+): PantryForecast => {
+  const learned = learnMonthlyUsage(snapshots, now);
+  const monthlyUsage =
+    learned ?? (declaredUsage && declaredUsage > 0 ? declaredUsage : null);
+  if (monthlyUsage === null) {
+    return {
+      monthlyUsage: null,
+      usageSource: null,
+      daysLeft: null,
+      runsOutAt: null,
+    };
+  }
+
+  const daysLeft = daysOfStock(quantity, monthlyUsage);
+  return {
+    monthlyUsage,
+    usageSource: learned !== null ? "learned" : "declared",
+    daysLeft,
+    runsOutAt: new Date(now.getTime() + daysLeft * DAY_MS),
+  };
+};
+
+/**
+ * Sort order for soonest run-out first, with unknown run-outs last
+ */
+export const compareByRunOut = (
+  a: PantryForecast,
+  b: PantryForecast
+): number => {
+  if (a.daysLeft !== null && b.daysLeft !== null) {
+    return a.daysLeft - b.daysLeft;
+  }
+  if (a.daysLeft !== null) return -1;
+  if (b.daysLeft !== null) return 1;
+  return 0;
+};
+
+/**
+ * "Runs out today", "Runs out in about 5 days", "Lasts about 3 months"
+ */
+export const describeRunOut = (daysLeft: number): string => {
+  if (daysLeft < 1) return "Runs out today";
+  if (daysLeft < 14) {
+    const days = Math.round(daysLeft);
+    return `Runs out in about ${days} ${days === 1 ? "day" : "days"}`;
+  }
+  if (daysLeft < 60) return `Lasts about ${Math.round(daysLeft / 7)} weeks`;
+  return `Lasts about ${Math.round(daysLeft / DAYS_PER_MONTH)} months`;
+};
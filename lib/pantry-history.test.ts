@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyPantryUpdate } from "./pantry";
+import { describePantryUpdate } from "./pantry-history";
+import type { ProductType } from "./types";
+
+const item = {
+  id: "rice",
+  name: "Rice",
+  category: "Pantry",
+  quantity: 3,
+  expiresAt: "2026-12-01",
+} as ProductType;
+
+describe("describePantryUpdate", () => {
+  it("describes quantity steps as using or restocking", () => {
+    expect(describePantryUpdate(item, { quantity: 2 }, [])?.summary).toBe(
+      "Used 1 (2 left)"
+    );
+    expect(describePantryUpdate(item, { quantity: 5 }, [])?.summary).toBe(
+      "Added 2 (5 on hand)"
+    );
+  });
+
+  it("counts a cleared date as a change", () => {
+    expect(describePantryUpdate(item, { expiresAt: null }, [])?.summary).toBe(
+      "Changed best-by date"
+    );
+  });
+
+  it("ignores clearing a field that's already unset", () => {
+    expect(
+      describePantryUpdate(item, { purchasedAt: null, quantity: 3 }, [])
+    ).toBeNull();
+  });
+});
+
+describe("applyPantryUpdate", () => {
+  it("clears fields set to null and keeps the rest", () => {
+    expect(
+      applyPantryUpdate(item, { expiresAt: null, quantity: 2 })
+    ).toMatchObject({ name: "Rice", quantity: 2, expiresAt: undefined });
+  });
+});
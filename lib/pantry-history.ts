@@ -0,0 +1,127 @@
+// A log of changes made to each pantry item: what was used, restocked,
+// moved or edited, and when. Kept in localStorage per account, alongside
+// the quantity snapshots used for run-out forecasts.
+
+import type {
+  PantryItemUpdate,
+  ProductType,
+  StorageLocation,
+} from "@/lib/types";
+
+export type PantryChangeKind = "used" | "restocked" | "moved" | "edited";
+
+export type PantryChange = {
+  kind: PantryChangeKind;
+  summary: string;
+  at: string;
+};
+
+// Changes by pantry item id, newest first
+export type PantryHistory = Record<string, PantryChange[]>;
+
+// Only the most recent changes per item are kept
+const MAX_CHANGES = 50;
+
+const FIELD_LABELS: Record<keyof PantryItemUpdate, string> = {
+  name: "name",
+  category: "category",
+  type: "type",
+  size: "size",
+  unit: "unit",
+  quantity: "quantity",
+  purchasedAt: "purchase date",
+  expiresAt: "best-by date",
+  storageLocationId: "location",
+};
+
+const historyKey = (userId: string) => `pantryHistory:${userId}`;
+
+/**
+ * Changes recorded on this device so far
+ */
+export const loadPantryHistory = (userId: string): PantryHistory => {
+  try {
+    const stored = localStorage.getItem(historyKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveHistory = (userId: string, history: PantryHistory) => {
+  localStorage.setItem(historyKey(userId), JSON.stringify(history));
+  return history;
+};
+
+/**
+ * What an update does to an item, or null when it changes nothing. A lone
+ * quantity or location change is described as using, restocking or moving
+ * the item; anything else as an edit listing the fields.
+ */
+export const describePantryUpdate = (
+  item: ProductType,
+  changes: PantryItemUpdate,
+  locations: StorageLocation[]
+): Omit<PantryChange, "at"> | null => {
+  const changed = (Object.keys(changes) as (keyof PantryItemUpdate)[]).filter(
+    (field) => (changes[field] ?? undefined) !== (item[field] ?? undefined)
+  );
+  if (changed.length === 0) return null;
+
+  if (changed.length === 1 && changed[0] === "quantity") {
+    const before = item.quantity ?? 1;
+    const after = changes.quantity ?? 0;
+    return after < before
+      ? { kind: "used", summary: `Used ${before - after} (${after} left)` }
+      : {
+          kind: "restocked",
+          summary: `Added ${after - before} (${after} on hand)`,
+        };
+  }
+
+  if (changed.length === 1 && changed[0] === "storageLocationId") {
+    const location = locations.find(
+      (entry) => entry.id === changes.storageLocationId
+    );
+    return {
+      kind: "moved",
+      summary: location ? `Moved to ${location.name}` : "Taken out of storage",
+    };
+  }
+
+  return {
+    kind: "edited",
+    summary: `Changed ${changed.map((field) => FIELD_LABELS[field]).join(", ")}`,
+  };
+};
+
+/**
+ * Add a change to an item's history and save the result
+ */
+export const recordPantryChange = (
+  userId: string,
+  itemId: string,
+  change: Omit<PantryChange, "at">,
+  now: Date = new Date()
+): PantryHistory => {
+  const history = loadPantryHistory(userId);
+  history[itemId] = [
+    { ...change, at: now.toISOString() },
+    ...(history[itemId] ?? []),
+  ].slice(0, MAX_CHANGES);
+  return saveHistory(userId, history);
+};
+
+/**
+ * Drop the history of items that were deleted
+ */
+export const forgetPantryItems = (
+  userId: string,
+  itemIds: string[]
+): PantryHistory => {
+  const history = loadPantryHistory(userId);
+  for (const itemId of itemIds) {
+    delete history[itemId];
+  }
+  return saveHistory(userId, history);
+};
@@ -0,0 +1,47 @@
+// Categories pantry items are filed under. Products from the backend use
+// free-form categories, so they are read into these where they match.
+
+import type { PantryItemUpdate, ProductType } from "@/lib/types";
+
+export const PANTRY_CATEGORIES = [
+  "Pantry",
+  "Produce",
+  "Dairy",
+  "Meat",
+  "Frozen",
+  "Bakery",
+  "Beverages",
+  "Snacks",
+  "Household",
+] as const;
+
+export type PantryCategory = (typeof PANTRY_CATEGORIES)[number];
+
+/**
+ * The pantry category matching a product or pantry category, ignoring case,
+ * falling back to "Pantry"
+ */
+export const parsePantryCategory = (value: string): PantryCategory =>
+  PANTRY_CATEGORIES.find(
+    (category) => category.toLowerCase() === value.trim().toLowerCase()
+  ) ?? "Pantry";
+
+// Undefined leaves a field as it is and null clears it
+const updateField = (
+  value: string | null | undefined,
+  current: string | undefined
+) => (value === undefined ? current : (value ?? undefined));
+
+/**
+ * A pantry item with an update applied, as the backend saves it
+ */
+export const applyPantryUpdate = (
+  item: ProductType,
+  { purchasedAt, expiresAt, storageLocationId, ...changes }: PantryItemUpdate
+): ProductType => ({
+  ...item,
+  ...changes,
+  purchasedAt: updateField(purchasedAt, item.purchasedAt),
+  expiresAt: updateField(expiresAt, item.expiresAt),
+  storageLocationId: updateField(storageLocationId, item.storageLocationId),
+});
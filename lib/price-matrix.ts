@@ -0,0 +1,70 @@
+// Lays out list items against nearby stores so the basket can be priced at
+// each store side by side
+
+import { getPriceAtStore } from "@/lib/stores";
+import type { ProductType, StorePriceComparison, StoreType } from "@/lib/types";
+
+export type BasketTotal = {
+  // Price times quantity for every item the store has a price for
+  total: number;
+  // Items left out of the total because the store has no price for them
+  missingItems: number;
+};
+
+export type PriceMatrix = {
+  // Columns: stores with a price for at least one item, most complete and
+  // then cheapest basket first
+  stores: StoreType[];
+  rows: StorePriceComparison[];
+  // Keyed by store _id
+  totals: Record<string, BasketTotal>;
+};
+
+/**
+ * Price every item at every store
+ */
+export const buildPriceMatrix = (
+  items: ProductType[],
+  stores: StoreType[]
+): PriceMatrix => {
+  const rows = items.map((item) => {
+    const prices = Object.fromEntries(
+      stores.map((store) => [store._id, getPriceAtStore(store, item)])
+    );
+    const known = Object.values(prices).filter(
+      (price): price is number => price !== null
+    );
+    return {
+      item,
+      prices,
+      lowestPrice: known.length > 0 ? Math.min(...known) : null,
+    };
+  });
+
+  const totals = Object.fromEntries(
+    stores.map((store) => {
+      const basket = rows.reduce(
+        (sum, { item, prices }) => {
+          const price = prices[store._id];
+          return price === null
+            ? { ...sum, missingItems: sum.missingItems + 1 }
+            : { ...sum, total: sum.total + price * (item.quantity || 1) };
+        },
+        { total: 0, missingItems: 0 }
+      );
+      return [store._id, basket];
+    })
+  );
+
+  return {
+    stores: stores
+      .filter((store) => totals[store._id].missingItems < items.length)
+      .sort(
+        (a, b) =>
+          totals[a._id].missingItems - totals[b._id].missingItems ||
+          totals[a._id].total - totals[b._id].total
+      ),
+    rows,
+    totals,
+  };
+};
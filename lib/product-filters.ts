@@ -0,0 +1,91 @@
+// Category filters and sort orders for product lists. Both are kept in the
+// URL query string, so they are parsed from plain strings here.
+
+import type { ProductType } from "@/lib/types";
+
+export const PRODUCT_CATEGORIES = [
+  { value: "all", label: "All Items" },
+  { value: "healthy", label: "Healthier Options" },
+  { value: "value", label: "Value Picks" },
+  { value: "bulk", label: "Bulk Packs" },
+] as const;
+
+export const PRODUCT_SORTS = [
+  { value: "relevance", label: "Best match" },
+  { value: "price-asc", label: "Price: low to high" },
+  { value: "price-desc", label: "Price: high to low" },
+  { value: "name", label: "Name" },
+] as const;
+
+export type ProductCategory = (typeof PRODUCT_CATEGORIES)[number]["value"];
+export type ProductSort = (typeof PRODUCT_SORTS)[number]["value"];
+
+/**
+ * Read a category from a query param, falling back to "all"
+ */
+export const parseCategory = (value: string | null): ProductCategory =>
+  PRODUCT_CATEGORIES.find((category) => category.value === value)?.value ??
+  "all";
+
+/**
+ * Read a sort order from a query param, falling back to "relevance"
+ */
+export const parseSort = (value: string | null): ProductSort =>
+  PRODUCT_SORTS.find((sort) => sort.value === value)?.value ?? "relevance";
+
+export const filterProducts = (
+  items: ProductType[],
+  category: ProductCategory
+): ProductType[] =>
+  category === "all"
+    ? items
+    : items.filter((item) => {
+        if (category === "healthy") return item.isHealthy;
+        if (category === "value") return item.isValuePick;
+        if (category === "bulk") return item.isBulkOption;
+        return true;
+      });
+
+/**
+ * Sort a copy of the list. Products without a known price go last whichever
+ * way prices are sorted.
+ */
+export const sortProducts = (
+  items: ProductType[],
+  sort: ProductSort
+): ProductType[] => {
+  if (sort === "relevance") return items;
+
+  if (sort === "name") {
+    return [...items].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  const direction = sort === "price-asc" ? 1 : -1;
+  return [...items].sort((a, b) => {
+    if (!a.lowestPrice || !b.lowestPrice) {
+      return (a.lowestPrice ? 0 : 1) - (b.lowestPrice ? 0 : 1);
+    }
+    return direction * (a.lowestPrice.price - b.lowestPrice.price);
+  });
+};
+
+/**
+ * Build the query string for a product list view, leaving out defaults so
+ * shared links stay short
+ */
+export const buildProductQuery = ({
+  q,
+  category,
+  sort,
+}: {
+  q?: string;
+  category?: ProductCategory;
+  sort?: ProductSort;
+}) => {
+  const params = new URLSearchParams();
+  if (q) params.set("q", q);
+  if (category && category !== "all") params.set("category", category);
+  if (sort && sort !== "relevance") params.set("sort", sort);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
@@ -0,0 +1,43 @@
+// Helpers for the purchase log, the prices the user actually paid
+
+import type { PricePoint, Purchase } from "@/lib/types";
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Purchases of one item, matched by product id or by name. Pantry items
+ * have ids of their own, so the name is what links them to purchases.
+ */
+export const getPurchasesOf = (
+  purchases: Purchase[],
+  item: { id: string; name: string }
+): Purchase[] =>
+  purchases.filter(
+    (purchase) =>
+      purchase.productId === item.id ||
+      normalizeName(purchase.itemName) === normalizeName(item.name)
+  );
+
+/**
+ * What the user paid for an item as chart points, oldest first
+ */
+export const getPaidPrices = (
+  purchases: Purchase[],
+  item: { id: string; name: string }
+): PricePoint[] =>
+  getPurchasesOf(purchases, item)
+    .map((purchase) => ({
+      date: purchase.purchasedAt,
+      price: purchase.price,
+      storeName: purchase.store || undefined,
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+/**
+ * Price times quantity over the purchases
+ */
+export const totalSpent = (purchases: Purchase[]): number =>
+  purchases.reduce(
+    (sum, purchase) => sum + purchase.price * purchase.quantity,
+    0
+  );
@@ -0,0 +1,257 @@
+// Pieces shared by the per-chain receipt parsers. Each chain describes its
+// item lines with a few patterns and parseLines does the rest.
+
+export type ReceiptLine = {
+  name: string;
+  quantity: number;
+  // Per unit, after any discounts printed under the item
+  unitPrice: number;
+  // What the line cost in total
+  total: number;
+  // The receipt text the line came from, for showing alongside the result
+  raw: string;
+};
+
+export type ReceiptParser = {
+  chain: string;
+  label: string;
+  // Whether a receipt looks like it came from this chain
+  matches: (text: string) => boolean;
+  parse: (lines: string[]) => ReceiptLine[];
+};
+
+export type LineRules = {
+  // An item line. Group 1 is the name and group 2 the amount as printed,
+  // with its "-" when negative.
+  item: RegExp;
+  // A line taking money off the item above it (coupons, member savings).
+  // Group 1 is the amount.
+  discount?: RegExp;
+  // Strips chain-specific noise like item codes from names
+  cleanName?: (name: string) => string;
+};
+
+// Words that start a totals, tax or payment line
+const SUMMARY_START = [
+  "subtotal",
+  "sub",
+  "total",
+  "tax",
+  "sales",
+  "balance",
+  "change",
+  "cash",
+  "visa",
+  "mastercard",
+  "amex",
+  "discover",
+  "debit",
+  "credit",
+  "tend",
+  "tender",
+  "payment",
+  "items",
+  "approved",
+  "auth",
+  "ref",
+  "account",
+  "amount",
+];
+
+// Words that can follow them on such a line. Anything else, like the
+// "CEREAL" in "TOTAL CEREAL", makes it an item.
+const SUMMARY_WORDS = [
+  ...SUMMARY_START,
+  "due",
+  "charge",
+  "purchase",
+  "number",
+  "item",
+  "sold",
+  "card",
+  "chip",
+  "read",
+  "code",
+  "paid",
+  "back",
+];
+
+// Savings lines are never items, wherever the word appears
+const SAVINGS_LINE = /\b(?:you saved|savings)\b/i;
+
+// "2 @ 1.25", "3 AT 0.99", "2 x $1.50". Walmart writes "2 AT 1 FOR 0.98"
+// with the line total after it, under an item line that has no price.
+const QUANTITY_LINE =
+  /^\s*(\d+)\s*(?:@|at|x)\s*(?:1\s+for\s+)?\$?(\d+\.\d{2})\b(?:.*?\s\$?(\d+\.\d{2})\b)?/i;
+
+// "1.32 lb @ 0.89 /lb" on produce sold by weight
+const WEIGHT_LINE =
+  /^\s*(\d+(?:\.\d+)?)\s*(?:lb|lbs|kg|oz)\s*@\s*\$?(\d+\.\d{2})/i;
+
+/**
+ * Item lines as most receipts print them: a name with at least one letter,
+ * then the amount, then an optional tax or status flag ("3.49 B"). Money
+ * off is printed with a leading or trailing "-" ("SALE -0.50").
+ */
+export const ITEM_LINE =
+  /^\s*(.*?[A-Za-z].*?)\s+(-?\$?\d+\.\d{2}-?)(?:\s+[A-Z]{1,2})?\s*$/;
+
+/**
+ * Whether a line is a total, tax or payment line rather than an item. Only
+ * words of three or more letters count, so tax codes and "US" are skipped.
+ */
+const isSummaryLine = (line: string): boolean => {
+  if (SAVINGS_LINE.test(line)) return true;
+  const words = (line.match(/[A-Za-z]{3,}/g) ?? []).map((word) =>
+    word.toLowerCase()
+  );
+  return (
+    words.length > 0 &&
+    SUMMARY_START.includes(words[0]) &&
+    words.every((word) => SUMMARY_WORDS.includes(word))
+  );
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * A dollar amount as printed, where a trailing or leading "-" marks a
+ * negative one. Returns null when the text isn't an amount.
+ */
+export const parseAmount = (text: string): number | null => {
+  const match = text.trim().match(/^(-)?\$?(\d+\.\d{2})(-)?$/);
+  if (!match) return null;
+  const amount = Number(match[2]);
+  return match[1] || match[3] ? -amount : amount;
+};
+
+/**
+ * Trim the name and squash the padding receipts put between words
+ */
+export const tidyName = (name: string) => name.replace(/\s+/g, " ").trim();
+
+/**
+ * Split pasted or uploaded receipt text into non-empty lines
+ */
+export const splitLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0);
+
+/**
+ * Turn receipt lines into items using a chain's rules. Quantity lines
+ * ("2 @ 1.25") apply to the item they're printed next to, whichever side
+ * that is, or price the name on the line above when they carry a total.
+ * Discount lines come off the item above.
+ */
+export const parseLines = (
+  lines: string[],
+  rules: LineRules
+): ReceiptLine[] => {
+  const items: ReceiptLine[] = [];
+  let pendingQuantity: { quantity: number; unitPrice: number } | null = null;
+  // The line before, when it had a name but no price
+  let unpricedLine: string | null = null;
+
+  for (const raw of lines) {
+    const previousUnpriced = unpricedLine;
+    unpricedLine = null;
+
+    const quantityMatch = raw.match(QUANTITY_LINE) ?? raw.match(WEIGHT_LINE);
+    if (quantityMatch) {
+      const quantity = Number(quantityMatch[1]);
+      const unitPrice = Number(quantityMatch[2]);
+      const lineTotal = quantityMatch[3] ? Number(quantityMatch[3]) : null;
+      const previous = items[items.length - 1];
+
+      // The price for the name on the line above
+      const name =
+        previousUnpriced &&
+        tidyName(
+          rules.cleanName ? rules.cleanName(previousUnpriced) : previousUnpriced
+        );
+      if (lineTotal !== null && name) {
+        items.push({
+          name,
+          quantity,
+          unitPrice: roundCents(lineTotal / quantity),
+          total: lineTotal,
+          raw: `${previousUnpriced.trim()} / ${raw.trim()}`,
+        });
+        pendingQuantity = null;
+        continue;
+      }
+
+      // Printed under its item: the item's total is quantity times price
+      if (
+        previous &&
+        previous.quantity === 1 &&
+        Math.abs(previous.total - roundCents(quantity * unitPrice)) < 0.02
+      ) {
+        // Weighed produce stays one item at its total price
+        if (Number.isInteger(quantity)) {
+          previous.quantity = quantity;
+          previous.unitPrice = unitPrice;
+        }
+      } else {
+        pendingQuantity = Number.isInteger(quantity)
+          ? { quantity, unitPrice }
+          : null;
+      }
+      continue;
+    }
+
+    // Before the summary check, since discounts often say "savings"
+    const discountMatch = rules.discount && raw.match(rules.discount);
+    if (discountMatch) {
+      const previous = items[items.length - 1];
+      const discount = Math.abs(parseAmount(discountMatch[1]) ?? 0);
+      if (previous && discount > 0) {
+        previous.total = roundCents(Math.max(0, previous.total - discount));
+        previous.unitPrice = roundCents(previous.total / previous.quantity);
+      }
+      continue;
+    }
+
+    if (isSummaryLine(raw)) {
+      pendingQuantity = null;
+      continue;
+    }
+
+    const itemMatch = raw.match(rules.item);
+    if (!itemMatch) {
+      if (/[A-Za-z]/.test(raw)) unpricedLine = raw;
+      continue;
+    }
+
+    const amount = parseAmount(itemMatch[2]);
+    const name = tidyName(
+      rules.cleanName ? rules.cleanName(itemMatch[1]) : itemMatch[1]
+    );
+    if (amount === null || !name) continue;
+
+    // A negative line that isn't a recognised discount is still money off
+    // the item above, e.g. a bottle deposit refund
+    if (amount < 0) {
+      const previous = items[items.length - 1];
+      if (previous) {
+        previous.total = roundCents(Math.max(0, previous.total + amount));
+        previous.unitPrice = roundCents(previous.total / previous.quantity);
+      }
+      continue;
+    }
+
+    const quantity = pendingQuantity?.quantity ?? 1;
+    items.push({
+      name,
+      quantity,
+      unitPrice: roundCents(amount / quantity),
+      total: amount,
+      raw: raw.trim(),
+    });
+    pendingQuantity = null;
+  }
+
+  return items;
+};
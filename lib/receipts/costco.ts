@@ -0,0 +1,16 @@
+// Costco prints "E ITEMNO NAME  PRICE TAXCODE", where E marks items eligible
+// for benefits, and instant savings as "ITEMNO /ORIGINALITEMNO AMOUNT-"
+
+import { ITEM_LINE, parseLines, type ReceiptParser } from "./common";
+
+export const costcoParser: ReceiptParser = {
+  chain: "costco",
+  label: "Costco",
+  matches: (text) => /costco|wholesale/i.test(text),
+  parse: (lines) =>
+    parseLines(lines, {
+      item: ITEM_LINE,
+      discount: /^\s*(?:E\s+)?\d+\s*\/\s*\d+\s+(\d+\.\d{2}-?)\s*$/,
+      cleanName: (name) => name.replace(/^(?:E\s+)?\d{3,7}\s+/, ""),
+    }),
+};
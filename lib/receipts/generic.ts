@@ -0,0 +1,17 @@
+// Fallback for receipts from chains without a parser of their own: item
+// lines are anything with a name followed by an amount
+
+import { ITEM_LINE, parseLines, type ReceiptParser } from "./common";
+
+export const genericParser: ReceiptParser = {
+  chain: "generic",
+  label: "Other store",
+  matches: () => true,
+  parse: (lines) =>
+    parseLines(lines, {
+      item: ITEM_LINE,
+      // Coupon and markdown lines under an item
+      discount:
+        /^\s*(?:coupon|discount|markdown|promo)\b.*?(\d+\.\d{2}-?)\s*$/i,
+    }),
+};
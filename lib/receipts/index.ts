@@ -0,0 +1,76 @@
+// Receipt text import: picks a parser for the store chain and turns pasted
+// or uploaded receipt text into line items
+
+import { splitLines, type ReceiptLine, type ReceiptParser } from "./common";
+import { costcoParser } from "./costco";
+import { genericParser } from "./generic";
+import { krogerParser } from "./kroger";
+import { targetParser } from "./target";
+import { walmartParser } from "./walmart";
+
+export type { ReceiptLine, ReceiptParser } from "./common";
+
+/**
+ * Chain parsers, tried in order when detecting. The generic parser comes
+ * last and accepts anything.
+ */
+export const RECEIPT_PARSERS: ReceiptParser[] = [
+  walmartParser,
+  krogerParser,
+  costcoParser,
+  targetParser,
+  genericParser,
+];
+
+/**
+ * The parser for a chain, or the first whose chain name appears in the
+ * receipt when no chain is given
+ */
+export const getReceiptParser = (text: string, chain?: string): ReceiptParser =>
+  RECEIPT_PARSERS.find((parser) =>
+    chain ? parser.chain === chain : parser.matches(text)
+  ) ?? genericParser;
+
+/**
+ * Line items on a receipt, along with the parser that read them
+ */
+export const parseReceipt = (
+  text: string,
+  chain?: string
+): { parser: ReceiptParser; lines: ReceiptLine[] } => {
+  const parser = getReceiptParser(text, chain);
+  return { parser, lines: parser.parse(splitLines(text)) };
+};
+
+const tokenize = (name: string) =>
+  name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !/^\d+$/.test(token));
+
+/**
+ * The candidate whose name shares the most words with a receipt line, or
+ * null when none share enough to be a likely match. Receipts abbreviate
+ * heavily, so this is only a starting suggestion for the user to confirm.
+ */
+export const suggestMatch = <T extends { name: string }>(
+  lineName: string,
+  candidates: T[]
+): T | null => {
+  const lineTokens = new Set(tokenize(lineName));
+  if (lineTokens.size === 0) return null;
+
+  let best: { candidate: T; score: number } | null = null;
+  for (const candidate of candidates) {
+    const tokens = new Set(tokenize(candidate.name));
+    const shared = Array.from(tokens).filter((token) =>
+      lineTokens.has(token)
+    ).length;
+    const score = shared / new Set([...tokens, ...lineTokens]).size;
+    if (shared > 0 && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+
+  return best && best.score >= 0.3 ? best.candidate : null;
+};
@@ -0,0 +1,18 @@
+// Kroger and its banners print "NAME  PRICE TAXCODE" with card savings on
+// their own line underneath, for example "SC KROGER SAVINGS 0.50-"
+
+import { ITEM_LINE, parseLines, type ReceiptParser } from "./common";
+
+export const krogerParser: ReceiptParser = {
+  chain: "kroger",
+  label: "Kroger",
+  matches: (text) =>
+    /kroger|ralphs|fred meyer|king soopers|smith'?s food|fry'?s food|harris teeter/i.test(
+      text
+    ),
+  parse: (lines) =>
+    parseLines(lines, {
+      item: ITEM_LINE,
+      discount: /^\s*(?:SC|CPN|KROGER SAVINGS)\b.*?(\d+\.\d{2}-?)\s*$/i,
+    }),
+};
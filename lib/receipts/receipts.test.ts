@@ -0,0 +1,122 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { splitLines } from "./common";
+import { genericParser } from "./generic";
+import { getReceiptParser, parseReceipt } from "./index";
+
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, "fixtures", `${name}.txt`), "utf8");
+
+// Name, quantity, unit price and total of each parsed line
+const summarize = (text: string, chain?: string) =>
+  parseReceipt(text, chain).lines.map(
+    ({ name, quantity, unitPrice, total }) => [name, quantity, unitPrice, total]
+  );
+
+describe("getReceiptParser", () => {
+  it.each(["walmart", "kroger", "costco", "target"])(
+    "detects %s receipts",
+    (chain) => {
+      expect(getReceiptParser(fixture(chain)).chain).toBe(chain);
+    }
+  );
+
+  it.each(["WAL*MART", "WAL-MART", "Walmart Supercenter"])(
+    "detects Walmart from %s",
+    (header) => {
+      expect(getReceiptParser(`${header}\nMILK 3.48 N`).chain).toBe("walmart");
+    }
+  );
+
+  it("falls back to the generic parser", () => {
+    expect(getReceiptParser(fixture("generic")).chain).toBe("generic");
+  });
+
+  it("uses the chain it's given over detection", () => {
+    expect(getReceiptParser(fixture("walmart"), "kroger").chain).toBe("kroger");
+  });
+});
+
+describe("chain parsers", () => {
+  it("reads Walmart items, UPCs stripped, with multi-buys and sale lines", () => {
+    expect(summarize(fixture("walmart"))).toEqual([
+      ["GV 2% MILK", 1, 3.48, 3.48],
+      ["TOTAL CEREAL", 1, 3.49, 3.49],
+      ["BREAD", 2, 0.98, 1.96],
+      ["BANANAS", 1, 0.64, 0.64],
+    ]);
+  });
+
+  it("reads Kroger items with card savings and quantity lines", () => {
+    expect(summarize(fixture("kroger"))).toEqual([
+      ["KROGER 2% MILK", 1, 2.79, 2.79],
+      ["DISCOVER CHEESE", 1, 4.99, 4.99],
+      ["PASTA SAUCE", 2, 1.25, 2.5],
+    ]);
+  });
+
+  it("reads Costco items, item numbers stripped, with instant savings", () => {
+    expect(summarize(fixture("costco"))).toEqual([
+      ["KS WATER 24PK", 1, 3.99, 3.99],
+      ["ORGANIC EGGS", 1, 4.99, 4.99],
+    ]);
+  });
+
+  it("reads Target items, DPCIs and flags stripped, with Circle offers", () => {
+    expect(summarize(fixture("target"))).toEqual([
+      ["GOOD & GATHER MILK", 1, 3.19, 3.19],
+      ["TOTAL CEREAL", 1, 3.86, 3.86],
+    ]);
+  });
+
+  it("reads other receipts with coupons and quantity lines", () => {
+    expect(summarize(fixture("generic"))).toEqual([
+      ["APPLES", 1, 2.49, 2.49],
+      ["CANNED BEANS", 2, 1.5, 3],
+    ]);
+  });
+});
+
+describe("summary lines", () => {
+  const parse = (text: string) =>
+    genericParser.parse(splitLines(text)).map((line) => line.name);
+
+  it.each([
+    "SUBTOTAL 12.34",
+    "SUB TOTAL 12.34",
+    "TOTAL 12.34",
+    "**** TOTAL 12.34",
+    "TAX 1 6.250 % 0.77",
+    "SALES TAX 0.77",
+    "T = CA TAX 7.25% on $10.00 $0.73",
+    "BALANCE DUE 12.34",
+    "VISA TEND 12.34",
+    "*1234 VISA CHARGE $12.34",
+    "DEBIT TEND 12.34",
+    "CASH 20.00",
+    "CHANGE DUE 7.66",
+    "TOTAL NUMBER OF ITEMS SOLD 4.00",
+    "YOU SAVED 1.50",
+    "INSTANT SAVINGS 1.50",
+  ])("drops %s", (line) => {
+    expect(parse(`MILK 3.49\n${line}`)).toEqual(["MILK"]);
+  });
+
+  it.each(["TOTAL CEREAL 3.49", "DISCOVER CHEESE 4.99", "CASHEWS 6.99"])(
+    "keeps %s",
+    (line) => {
+      expect(parse(line)).toHaveLength(1);
+    }
+  );
+});
+
+describe("discounts", () => {
+  it.each(["SALE -0.50", "SALE 0.50-", "SALE -$0.50"])(
+    "takes %s off the item above",
+    (line) => {
+      const [item] = genericParser.parse(splitLines(`MILK 3.49\n${line}`));
+      expect(item.total).toBe(2.99);
+    }
+  );
+});
@@ -0,0 +1,18 @@
+// Target prints "DPCI NAME  FLAGS $PRICE", for example
+// "212030180 GOOD & GATHER MILK NF $3.19", with Circle offers underneath
+
+import { ITEM_LINE, parseLines, type ReceiptParser } from "./common";
+
+export const targetParser: ReceiptParser = {
+  chain: "target",
+  label: "Target",
+  matches: (text) => /\btarget\b/i.test(text),
+  parse: (lines) =>
+    parseLines(lines, {
+      item: ITEM_LINE,
+      discount: /^\s*(?:target\s+)?circle\b.*?\$?(\d+\.\d{2}-?)\s*$/i,
+      // The nine-digit DPCI, and tax flags (N, T, NF, ...) before the price
+      cleanName: (name) =>
+        name.replace(/^\d{9}\s+/, "").replace(/\s+(?:[NT]|NF|FN|TF|FT)$/, ""),
+    }),
+};
@@ -0,0 +1,16 @@
+// Walmart prints each item as "NAME  UPC FLAG  PRICE TAXCODE", for example
+// "GV 2% MILK 007874235186 F 3.48 N"
+
+import { ITEM_LINE, parseLines, type ReceiptParser } from "./common";
+
+export const walmartParser: ReceiptParser = {
+  chain: "walmart",
+  label: "Walmart",
+  matches: (text) => /wal[-*]?mart|save money\. live better/i.test(text),
+  parse: (lines) =>
+    parseLines(lines, {
+      item: ITEM_LINE,
+      // The UPC, then an optional one-letter flag (F for food stamp eligible)
+      cleanName: (name) => name.replace(/\s+\d{8,13}[A-Z]?(?:\s+[A-Z])?$/, ""),
+    }),
+};
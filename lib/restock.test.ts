@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { PantryForecast } from "./pantry-forecast";
+import { planRestock } from "./restock";
+import type { PriceTrendType, ProductType } from "./types";
+
+const product = (id: string, name: string) => ({ id, name }) as ProductType;
+
+const forecast: PantryForecast = {
+  monthlyUsage: 4,
+  usageSource: null,
+  daysLeft: 2,
+  runsOutAt: null,
+};
+
+describe("planRestock", () => {
+  const pantryItems = [{ item: product("pantry-milk", "Milk"), forecast }];
+  const priceTrends = [
+    { id: "trend-milk", name: "Milk", seasonalLow: true } as PriceTrendType,
+  ];
+
+  it("adds the product matching the pantry item's name", () => {
+    const [suggestion] = planRestock(pantryItems, 7, {
+      products: [product("product-milk", "milk")],
+      priceTrends,
+      listItems: [],
+    });
+    expect(suggestion.productId).toBe("product-milk");
+  });
+
+  it("has no product to add when only a price trend matches", () => {
+    const [suggestion] = planRestock(pantryItems, 7, {
+      products: [],
+      priceTrends,
+      listItems: [],
+    });
+    expect(suggestion).toMatchObject({
+      productId: null,
+      timing: "seasonalLow",
+    });
+  });
+});
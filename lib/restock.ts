@@ -0,0 +1,129 @@
+// Restock planning: which pantry items to put back on My List, how many to
+// buy, and when. Items are suggested when they're forecast to run out within
+// the lead time, and earlier (in bigger amounts) while their price is low.
+
+import type { PantryForecast } from "@/lib/pantry-forecast";
+import type { PriceTrendType, ProductType } from "@/lib/types";
+
+// Why now: the price is at a seasonal low, the backend recommends buying,
+// or the item is simply about to run out
+export type RestockTiming = "seasonalLow" | "buyRecommended" | "runningOut";
+
+export type RestockSuggestion = {
+  item: ProductType;
+  forecast: PantryForecast;
+  // The product to add to My List; null when no product matches the
+  // pantry item's name
+  productId: string | null;
+  quantity: number;
+  timing: RestockTiming;
+  reason: string;
+};
+
+type TimingRule = {
+  // Multiplies the lead time, so low prices are acted on earlier
+  leadTimeFactor: number;
+  // Months of usage to buy
+  monthsToBuy: number;
+};
+
+const TIMING_RULES: Record<RestockTiming, TimingRule> = {
+  seasonalLow: { leadTimeFactor: 4, monthsToBuy: 3 },
+  buyRecommended: { leadTimeFactor: 2, monthsToBuy: 2 },
+  runningOut: { leadTimeFactor: 1, monthsToBuy: 1 },
+};
+
+// Seasonal lows first, then by how soon the item runs out
+const TIMING_ORDER: RestockTiming[] = [
+  "seasonalLow",
+  "buyRecommended",
+  "runningOut",
+];
+
+export const LEAD_TIME_OPTIONS = [3, 7, 14, 30];
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const getTiming = (trend: PriceTrendType | undefined): RestockTiming =>
+  trend?.seasonalLow
+    ? "seasonalLow"
+    : trend?.buyRecommendation
+      ? "buyRecommended"
+      : "runningOut";
+
+const describe = (
+  timing: RestockTiming,
+  daysLeft: number,
+  trend: PriceTrendType | undefined
+): string => {
+  const runsOut =
+    daysLeft < 1
+      ? "runs out today"
+      : `runs out in about ${Math.round(daysLeft)} days`;
+  switch (timing) {
+    case "seasonalLow":
+      return `Seasonal low price; ${runsOut}, so stock up now.`;
+    case "buyRecommended":
+      return trend?.buyRecommendationReason || `Good time to buy; ${runsOut}.`;
+    case "runningOut":
+      return `${runsOut.charAt(0).toUpperCase()}${runsOut.slice(1)}.`;
+  }
+};
+
+/**
+ * Restock suggestions for pantry items forecast to run out within
+ * leadTimeDays, or within a multiple of it while prices are low. Items
+ * already on My List are left out. Products and trends are matched to
+ * pantry items by name.
+ */
+export const planRestock = (
+  pantryItems: { item: ProductType; forecast: PantryForecast }[],
+  leadTimeDays: number,
+  {
+    products,
+    priceTrends,
+    listItems,
+  }: {
+    products: ProductType[];
+    priceTrends: PriceTrendType[];
+    listItems: ProductType[];
+  }
+): RestockSuggestion[] => {
+  const suggestions: RestockSuggestion[] = [];
+
+  for (const { item, forecast } of pantryItems) {
+    const { daysLeft, monthlyUsage } = forecast;
+    if (daysLeft === null || monthlyUsage === null) continue;
+
+    const name = normalizeName(item.name);
+    const trend = priceTrends.find(
+      (entry) => normalizeName(entry.name) === name
+    );
+    const timing = getTiming(trend);
+    const rule = TIMING_RULES[timing];
+    if (daysLeft > leadTimeDays * rule.leadTimeFactor) continue;
+
+    // Price trends aren't products, so only a matching product can be added
+    const productId =
+      products.find((entry) => normalizeName(entry.name) === name)?.id ?? null;
+    const isOnList = listItems.some(
+      (entry) => entry.id === productId || normalizeName(entry.name) === name
+    );
+    if (isOnList) continue;
+
+    suggestions.push({
+      item,
+      forecast,
+      productId,
+      quantity: Math.max(1, Math.ceil(monthlyUsage * rule.monthsToBuy)),
+      timing,
+      reason: describe(timing, daysLeft, trend),
+    });
+  }
+
+  return suggestions.sort(
+    (a, b) =>
+      TIMING_ORDER.indexOf(a.timing) - TIMING_ORDER.indexOf(b.timing) ||
+      (a.forecast.daysLeft ?? 0) - (b.forecast.daysLeft ?? 0)
+  );
+};
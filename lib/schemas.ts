@@ -0,0 +1,396 @@
+// Runtime validation of backend responses
+
+import { z } from "zod";
+import { toast } from "react-hot-toast";
+import type {
+  Budget,
+  CalculationHistory,
+  DashboardDataType,
+  NewsItemType,
+  PantryItemWithTrends,
+  PriceHistory,
+  PriceTrendType,
+  ProductType,
+  Purchase,
+  Recipe,
+  SavedLocation,
+  StorageLocation,
+  StoreType,
+  UserType,
+} from "@/lib/types";
+
+// Schemas are typed against the hand-written types in lib/types so the two
+// can't drift apart; input is whatever JSON the backend sent.
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Accepts numbers and numeric strings, which some endpoints still send
+ */
+const numberLike = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+  z.number().finite()
+);
+
+/**
+ * A price the backend observed. Missing, zero or negative values mean there
+ * is no recent observation, so they become null instead of failing the record.
+ */
+const observedPrice = numberLike
+  .nullable()
+  .catch(null)
+  .transform((price) => (price !== null && price > 0 ? price : null));
+
+const lowestPriceSchema = z
+  .object({
+    price: observedPrice,
+    store: z.string().catch(""),
+  })
+  .nullable()
+  .catch(null)
+  .transform((info) =>
+    info && info.price !== null
+      ? {
+          price: info.price,
+          store: info.store === "Unknown Store" ? "" : info.store,
+        }
+      : null
+  );
+
+// Entries without a usable price or store are dropped rather than failing
+// the product
+const storePricesSchema = z
+  .array(
+    z.object({ price: observedPrice, store: z.string() }).nullable().catch(null)
+  )
+  .optional()
+  .catch(undefined)
+  .transform((prices) =>
+    prices?.flatMap((info) =>
+      info && info.price !== null && info.store
+        ? [{ price: info.price, store: info.store }]
+        : []
+    )
+  );
+
+const priceRangeSchema = z
+  .object({
+    min: observedPrice,
+    max: observedPrice,
+    period: z.string().catch("6 weeks"),
+  })
+  .nullable()
+  .catch(null)
+  .transform((range) =>
+    range && range.min !== null && range.max !== null
+      ? { min: range.min, max: range.max, period: range.period }
+      : null
+  );
+
+const pricePointSchema = z.object({
+  date: z.string(),
+  price: numberLike,
+  storeName: z.string().optional(),
+});
+
+const priceHistorySchema: Schema<PriceHistory> = z.object({
+  weekly: z.array(pricePointSchema).default([]),
+  monthly: z.array(pricePointSchema).default([]),
+  threeMonth: z.array(pricePointSchema).default([]),
+});
+
+const priceChangeSchema = z.object({
+  weekly: numberLike,
+  monthly: numberLike,
+  threeMonth: numberLike,
+});
+
+export const userSchema: Schema<UserType> = z.object({
+  _id: z.string(),
+  firstName: z.string().catch(""),
+  lastName: z.string().catch(""),
+  fullName: z.string().catch(""),
+  email: z.string(),
+  zipCode: z.string().catch(""),
+  shoppingStyle: z.string().catch(""),
+});
+
+export const savedLocationSchema: Schema<SavedLocation> = z.object({
+  id: z.string(),
+  name: z.string(),
+  zipCode: z.string(),
+});
+
+export const storageLocationSchema: Schema<StorageLocation> = z.object({
+  id: z.string(),
+  name: z.string(),
+  capacity: numberLike.nullable().catch(null),
+});
+
+export const storeSchema: Schema<StoreType> = z.object({
+  _id: z.string(),
+  name: z.string(),
+  address: z.object({
+    formattedAddress: z.string().catch(""),
+    zipCode: z.string().catch(""),
+    country: z.string().catch(""),
+  }),
+  location: z.object({
+    type: z.string().catch("Point"),
+    coordinates: z.array(numberLike).min(2),
+  }),
+  hours: z.record(z.string()).catch({}),
+  chainName: z.string().catch(""),
+  storeType: z.string().catch(""),
+  phone: z.string().catch(""),
+  website: z.string().optional(),
+  rating: numberLike.catch(0),
+  priceLevel: numberLike.optional(),
+});
+
+export const productSchema: Schema<ProductType> = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().catch(""),
+  category: z.string().catch(""),
+  type: z.string().catch(""),
+  size: z.string().catch(""),
+  unit: z.string().catch(""),
+  imageUrl: z.string().catch(""),
+  lowestPrice: lowestPriceSchema,
+  priceRange: priceRangeSchema,
+  isBuyRecommended: z.boolean().catch(false),
+  buyRecommendationReason: z.string().catch(""),
+  isHealthy: z.boolean().catch(false),
+  isValuePick: z.boolean().catch(false),
+  isBulkOption: z.boolean().catch(false),
+  storePrices: storePricesSchema,
+  quantity: numberLike.optional(),
+  notes: z.string().optional().catch(undefined),
+  preferredStore: z.string().optional().catch(undefined),
+  addedAt: z.string().optional(),
+  purchasedAt: z.string().optional().catch(undefined),
+  expiresAt: z.string().optional().catch(undefined),
+  storageLocationId: z.string().optional().catch(undefined),
+});
+
+export const newsItemSchema: Schema<NewsItemType> = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string().optional(),
+  summary: z.string().catch(""),
+  category: z.string().catch(""),
+  impactLevel: z.string().catch(""),
+  publishedAt: z.string().catch(""),
+});
+
+export const priceTrendSchema: Schema<PriceTrendType> = z.object({
+  id: z.string(),
+  name: z.string(),
+  currentPrice: observedPrice,
+  priceHistory: priceHistorySchema,
+  priceChange: priceChangeSchema,
+  lowestPrice: observedPrice,
+  highestPrice: observedPrice,
+  storeName: z.string().catch(""),
+  seasonalLow: z.boolean().optional(),
+  buyRecommendation: z.boolean().optional(),
+  buyRecommendationReason: z.string().optional(),
+});
+
+export const pantryItemWithTrendsSchema: Schema<PantryItemWithTrends> =
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    quantity: numberLike,
+    monthlyUsage: numberLike.catch(0),
+    addedAt: z.string().catch(""),
+    currentPrice: observedPrice,
+    priceHistory: priceHistorySchema,
+    priceChange: priceChangeSchema,
+    lowestPrice: observedPrice,
+    highestPrice: observedPrice,
+    storeName: z.string().catch(""),
+  });
+
+export const recipeSchema: Schema<Recipe> = z.object({
+  id: z.string(),
+  name: z.string(),
+  ingredients: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      quantity: numberLike,
+      unit: z.string().catch(""),
+      currentPrice: numberLike,
+      previousPrice: numberLike.nullable().catch(null),
+    })
+  ),
+  totalCurrentPrice: numberLike,
+  totalPreviousPrice: numberLike.nullable().catch(null),
+  priceChange: numberLike.nullable().catch(null),
+  lastUpdated: z.string(),
+});
+
+export const calculationHistorySchema: Schema<CalculationHistory> = z.object({
+  id: z.string(),
+  itemName: z.string(),
+  pricePerUnit: numberLike,
+  bulkQuantity: numberLike,
+  bulkPrice: numberLike,
+  monthlyUsage: numberLike,
+  recommendedQuantity: numberLike,
+  savingsPercentage: numberLike,
+  savingsAmount: numberLike,
+  timeframe: numberLike,
+  createdAt: z.string(),
+  message: z.string().catch(""),
+});
+
+export const purchaseSchema: Schema<Purchase> = z.object({
+  id: z.string(),
+  productId: z.string().optional().catch(undefined),
+  itemName: z.string(),
+  store: z.string().catch(""),
+  price: numberLike,
+  quantity: numberLike.catch(1),
+  purchasedAt: z.string(),
+});
+
+export const budgetSchema: Schema<Budget> = z.object({
+  monthlyLimit: numberLike.catch(0),
+  envelopes: z.record(numberLike).catch({}),
+});
+
+/**
+ * Thrown when a response object doesn't match its schema
+ */
+export class SchemaValidationError extends Error {
+  label: string;
+  field: string;
+
+  constructor(label: string, field: string, detail: string) {
+    super(`Received invalid ${label} from the server (${field}: ${detail})`);
+    this.name = "SchemaValidationError";
+    this.label = label;
+    this.field = field;
+  }
+}
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0];
+  return {
+    field: issue.path.join(".") || "(root)",
+    detail: issue.message,
+  };
+};
+
+/**
+ * Validate a single response object, throwing a SchemaValidationError that
+ * names the first field that failed
+ */
+export const parseResponse = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  label: string
+): T => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const { field, detail } = describeIssue(result.error);
+    console.error(
+      `Invalid ${label} in API response at "${field}":`,
+      detail,
+      data
+    );
+    throw new SchemaValidationError(label, field, detail);
+  }
+  return result.data;
+};
+
+/**
+ * Validate a list from a response. Entries that fail are logged with the
+ * field that failed and left out, and the user is told how many were hidden.
+ * A missing list is treated as empty.
+ */
+export const parseList = <T>(
+  schema: Schema<T>,
+  data: unknown,
+  label: string
+): T[] => {
+  if (data === undefined || data === null) return [];
+
+  if (!Array.isArray(data)) {
+    console.error(`Expected a list of ${label} in API response, got:`, data);
+    toast.error(`Couldn't load ${label}: the server sent malformed data`, {
+      id: `invalid-${label}`,
+    });
+    return [];
+  }
+
+  const valid: T[] = [];
+  let dropped = 0;
+
+  data.forEach((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+
+    dropped += 1;
+    const { field, detail } = describeIssue(result.error);
+    console.warn(
+      `Dropped invalid ${label} [${index}] at "${field}":`,
+      detail,
+      entry
+    );
+  });
+
+  if (dropped > 0) {
+    toast.error(
+      `${dropped} ${label} ${dropped === 1 ? "was" : "were"} hidden because of incomplete data`,
+      { id: `invalid-${label}` }
+    );
+  }
+
+  return valid;
+};
+
+// The lists' entries are checked one by one in parseDashboard, so a bad
+// entry only hides itself
+const dashboardListSchema = z.array(z.unknown()).nullish();
+
+const dashboardSchema = z.object({
+  stores: dashboardListSchema,
+  pantryItems: dashboardListSchema,
+  produceItems: dashboardListSchema,
+  buyAlerts: dashboardListSchema,
+  newsHighlights: dashboardListSchema,
+});
+
+/**
+ * Validate the /dashboard payload (also used for the cached copy). Throws a
+ * SchemaValidationError when it isn't an object of lists.
+ */
+export const parseDashboard = (data: unknown): DashboardDataType => {
+  const dashboard = parseResponse(dashboardSchema, data, "dashboard data");
+  return {
+    stores: parseList(storeSchema, dashboard.stores, "stores"),
+    pantryItems: parseList(
+      productSchema,
+      dashboard.pantryItems,
+      "pantry items"
+    ),
+    produceItems: parseList(
+      productSchema,
+      dashboard.produceItems,
+      "produce items"
+    ),
+    buyAlerts: parseList(productSchema, dashboard.buyAlerts, "buy alerts"),
+    newsHighlights: parseList(
+      newsItemSchema,
+      dashboard.newsHighlights,
+      "news items"
+    ),
+  };
+};
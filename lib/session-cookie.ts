@@ -0,0 +1,6 @@
+// Settings for the httpOnly cookie that mirrors the session for middleware
+
+export const SESSION_COOKIE = "session";
+
+// Long enough to outlive access tokens, which are refreshed on the client
+export const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
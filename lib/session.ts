@@ -0,0 +1,92 @@
+// Helpers for the signed-in session kept in localStorage
+
+import type { SavedLocation, UserType } from "@/lib/types";
+
+/**
+ * Mirror the token into the httpOnly cookie that middleware checks. Errors
+ * are logged rather than thrown: the API calls themselves don't need it.
+ */
+const syncSessionCookie = async (token: string | null) => {
+  try {
+    await fetch("/api/session", {
+      method: token ? "POST" : "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: token ? JSON.stringify({ token }) : undefined,
+    });
+  } catch (error) {
+    console.error("Error syncing session cookie:", error);
+  }
+};
+
+/**
+ * Save the tokens (and user, when the response includes one) after sign in
+ * or a token refresh
+ */
+export const storeSession = async ({
+  token,
+  refreshToken,
+  user,
+}: {
+  token: string;
+  refreshToken?: string;
+  user?: UserType;
+}) => {
+  localStorage.setItem("token", token);
+  if (refreshToken) {
+    localStorage.setItem("refreshToken", refreshToken);
+  }
+  if (user) {
+    localStorage.setItem("user", JSON.stringify(user));
+  }
+  await syncSessionCookie(token);
+};
+
+/**
+ * Remove the session and every per-user cache
+ */
+export const clearSession = async () => {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+  localStorage.removeItem("user");
+  localStorage.removeItem("dashboardData");
+  localStorage.removeItem("dashboardZipCode");
+  localStorage.removeItem("myList");
+  localStorage.removeItem("lastFetchTime");
+  await syncSessionCookie(null);
+};
+
+// Kept per account, so it survives signing out but isn't shared between
+// people using the same browser
+const activeLocationKey = (userId: string) => `activeLocation:${userId}`;
+
+/**
+ * The saved location this device last switched to, or null for the profile
+ * ZIP code
+ */
+export const getActiveLocation = (userId: string): SavedLocation | null => {
+  try {
+    const stored = localStorage.getItem(activeLocationKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveLocation = (
+  userId: string,
+  location: SavedLocation | null
+) => {
+  if (location) {
+    localStorage.setItem(activeLocationKey(userId), JSON.stringify(location));
+  } else {
+    localStorage.removeItem(activeLocationKey(userId));
+  }
+};
+
+/**
+ * Only allow redirects back to pages on this site
+ */
+export const getSafeRedirect = (redirect: string | null) =>
+  redirect && redirect.startsWith("/") && !redirect.startsWith("//")
+    ? redirect
+    : null;
@@ -0,0 +1,172 @@
+// Per-style dashboard personalization. Everything a shopping style changes
+// about the dashboard is declared here rather than branched on in components.
+
+import type { ProductCategory } from "@/lib/product-filters";
+
+/**
+ * Sections of the dashboard overview that a style can order or leave out
+ */
+export type DashboardSection =
+  | "bulkCalculator"
+  | "storesAndAlerts"
+  | "pantryStaples"
+  | "produce"
+  | "priceTrends"
+  | "budget"
+  | "news";
+
+/**
+ * Product tags that ProductCard can emphasize
+ */
+export type ProductBadge = "healthy" | "value" | "bulk";
+
+export type ShoppingStyleConfig = {
+  label: string;
+  // Shown under the style name on the welcome panel
+  description: string;
+  // Overview sections in display order; sections not listed are hidden
+  sections: DashboardSection[];
+  // Category the product filters start on
+  defaultCategory: ProductCategory;
+  highlightedBadges: ProductBadge[];
+};
+
+const DEFAULT_SECTIONS: DashboardSection[] = [
+  "storesAndAlerts",
+  "pantryStaples",
+  "produce",
+  "priceTrends",
+  "budget",
+  "news",
+];
+
+export const SHOPPING_STYLES: Record<string, ShoppingStyleConfig> = {
+  bulk: {
+    label: "Bulk Buy Shopper",
+    description: "Bulk packs and the bulk buy calculator come first.",
+    sections: [
+      "bulkCalculator",
+      "storesAndAlerts",
+      "pantryStaples",
+      "priceTrends",
+      "produce",
+      "budget",
+      "news",
+    ],
+    defaultCategory: "bulk",
+    highlightedBadges: ["bulk", "value"],
+  },
+  value: {
+    label: "Value Shopper",
+    description: "Value picks are shown first.",
+    sections: DEFAULT_SECTIONS,
+    defaultCategory: "value",
+    highlightedBadges: ["value"],
+  },
+  health: {
+    label: "Health Conscious",
+    description: "Fresh produce and organic options come first.",
+    sections: [
+      "produce",
+      "pantryStaples",
+      "storesAndAlerts",
+      "priceTrends",
+      "budget",
+      "news",
+    ],
+    defaultCategory: "healthy",
+    highlightedBadges: ["healthy"],
+  },
+  budget: {
+    label: "Budget Shopper",
+    description:
+      "Your budget, this week's best deals and price trends come first.",
+    sections: [
+      "budget",
+      "storesAndAlerts",
+      "priceTrends",
+      "pantryStaples",
+      "produce",
+      "news",
+    ],
+    defaultCategory: "value",
+    highlightedBadges: ["value", "bulk"],
+  },
+  prepper: {
+    label: "Prepper/Pantry Stocker",
+    description:
+      "Shelf-stable bulk buys and the bulk buy calculator come first.",
+    sections: [
+      "bulkCalculator",
+      "pantryStaples",
+      "storesAndAlerts",
+      "priceTrends",
+      "budget",
+      "news",
+    ],
+    defaultCategory: "bulk",
+    highlightedBadges: ["bulk"],
+  },
+  seasonal: {
+    label: "Seasonal Cook",
+    description: "Fresh produce and price trends come first.",
+    sections: [
+      "produce",
+      "priceTrends",
+      "storesAndAlerts",
+      "pantryStaples",
+      "budget",
+      "news",
+    ],
+    defaultCategory: "all",
+    highlightedBadges: ["healthy"],
+  },
+  homesteader: {
+    label: "Homesteader/Gardener",
+    description: "Pantry staples and bulk packs come first.",
+    sections: [
+      "pantryStaples",
+      "produce",
+      "storesAndAlerts",
+      "news",
+      "priceTrends",
+      "budget",
+    ],
+    defaultCategory: "all",
+    highlightedBadges: ["bulk", "healthy"],
+  },
+  clean: {
+    label: "Clean Ingredient Shopper",
+    description: "Organic options are shown first.",
+    sections: [
+      "produce",
+      "pantryStaples",
+      "storesAndAlerts",
+      "priceTrends",
+      "budget",
+      "news",
+    ],
+    defaultCategory: "healthy",
+    highlightedBadges: ["healthy"],
+  },
+};
+
+/**
+ * Options for shopping style selects, in the order they are listed above
+ */
+export const SHOPPING_STYLE_OPTIONS = Object.entries(SHOPPING_STYLES).map(
+  ([value, config]) => ({ value, label: config.label })
+);
+
+/**
+ * Look up a style's config. Unknown styles get the default layout and use
+ * the raw style name as their label.
+ */
+export const getShoppingStyle = (style: string): ShoppingStyleConfig =>
+  SHOPPING_STYLES[style] ?? {
+    label: style,
+    description: "",
+    sections: DEFAULT_SECTIONS,
+    defaultCategory: "all",
+    highlightedBadges: [],
+  };
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { toPantryStock } from "./shopping-trip";
+import type { ProductType } from "./types";
+
+const item = (id: string, name: string, quantity?: number) =>
+  ({ id, name, category: "Dairy", quantity }) as ProductType;
+
+describe("toPantryStock", () => {
+  const purchasedAt = new Date(2026, 9, 19);
+
+  it("tops up a pantry item with the same name", () => {
+    const pantry = [item("p1", "Whole Milk", 1)];
+    expect(
+      toPantryStock([item("milk", "whole milk ", 2)], pantry, purchasedAt)
+    ).toEqual([{ productIds: ["milk"], pantryItemId: "p1", quantity: 3 }]);
+  });
+
+  it("tops up once for several items of the same pantry item", () => {
+    const pantry = [item("p1", "Eggs", 0)];
+    expect(
+      toPantryStock(
+        [item("eggs", "Eggs"), item("eggs-2", "EGGS", 2)],
+        pantry,
+        purchasedAt
+      )
+    ).toEqual([
+      { productIds: ["eggs", "eggs-2"], pantryItemId: "p1", quantity: 3 },
+    ]);
+  });
+
+  it("adds items the pantry doesn't have", () => {
+    const [stock] = toPantryStock(
+      [item("milk", "Milk", 2)],
+      [item("p1", "Bread", 1)],
+      purchasedAt
+    );
+    expect(stock).toMatchObject({
+      productIds: ["milk"],
+      item: { name: "Milk", quantity: 2, purchasedAt: "2026-10-19" },
+    });
+  });
+});
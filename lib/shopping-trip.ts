@@ -0,0 +1,174 @@
+// State for in-store shopping mode: which My List items are in the cart and
+// what was paid for them. Kept in localStorage so a reload or a locked phone
+// mid-trip doesn't lose it.
+
+import { getDefaultExpiry, toDateInputValue } from "@/lib/expiry";
+import type { NewPantryItem, NewPurchase, ProductType } from "@/lib/types";
+
+export type CheckedItem = {
+  // Per unit; null until the user enters it or a price is known
+  pricePaid: number | null;
+};
+
+// The parts of finishing a trip, saved in this order
+export type FinishStep = "purchases" | "pantry" | "list";
+
+export type ShoppingTrip = {
+  // Store being shopped at, by _id
+  storeId: string | null;
+  // Keyed by product id
+  checked: Record<string, CheckedItem>;
+  startedAt: string;
+  // Steps saved by an earlier attempt to finish that failed partway
+  savedSteps?: FinishStep[];
+  // Items already put in the pantry by such an attempt, by product id
+  stockedIds?: string[];
+};
+
+// Bought items going into the pantry: more of a pantry item the user
+// already has, or a new one
+export type PantryStock = {
+  // The My List items bought, by product id
+  productIds: string[];
+} & ({ pantryItemId: string; quantity: number } | { item: NewPantryItem });
+
+// What finishing a trip saves
+export type FinishedTrip = {
+  purchases: NewPurchase[];
+  // Empty unless the user chose to stock the pantry
+  pantryStock: PantryStock[];
+  // Taken off My List; empty to leave the list as it is
+  removeFromList: string[];
+  // Already saved, so skipped rather than saved twice
+  savedSteps: FinishStep[];
+};
+
+// Roughly the order a shopper walks a supermarket. Product categories are
+// matched against these case-insensitively; anything else goes under Other.
+export const AISLES = [
+  "Produce",
+  "Bakery",
+  "Meat",
+  "Dairy",
+  "Pantry",
+  "Snacks",
+  "Beverages",
+  "Frozen",
+  "Household",
+];
+
+const OTHER_AISLE = "Other";
+
+// Per account, like the active location
+const tripKey = (userId: string) => `shoppingTrip:${userId}`;
+
+export const newShoppingTrip = (): ShoppingTrip => ({
+  storeId: null,
+  checked: {},
+  startedAt: new Date().toISOString(),
+});
+
+/**
+ * The trip in progress on this device, or null when there isn't one
+ */
+export const loadShoppingTrip = (userId: string): ShoppingTrip | null => {
+  try {
+    const stored = localStorage.getItem(tripKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveShoppingTrip = (userId: string, trip: ShoppingTrip) => {
+  localStorage.setItem(tripKey(userId), JSON.stringify(trip));
+};
+
+export const clearShoppingTrip = (userId: string) => {
+  localStorage.removeItem(tripKey(userId));
+};
+
+export const getAisle = (item: ProductType): string =>
+  AISLES.find(
+    (aisle) => aisle.toLowerCase() === item.category.trim().toLowerCase()
+  ) ?? OTHER_AISLE;
+
+/**
+ * Items grouped by aisle, in walking order, leaving out empty aisles
+ */
+export const groupByAisle = (items: ProductType[]) =>
+  [...AISLES, OTHER_AISLE]
+    .map((aisle) => ({
+      aisle,
+      items: items.filter((item) => getAisle(item) === aisle),
+    }))
+    .filter(({ items }) => items.length > 0);
+
+/**
+ * A pantry entry for a bought item, using the aisle as its category and
+ * that category's shelf life for its best-by date
+ */
+export const toPantryItem = (
+  item: ProductType,
+  purchasedAt: Date = new Date()
+): NewPantryItem => {
+  const aisle = getAisle(item);
+  const category = aisle === OTHER_AISLE ? "Pantry" : aisle;
+  const expiresAt = getDefaultExpiry(category, purchasedAt);
+  return {
+    name: item.name,
+    category,
+    type: item.type || "Store Brand",
+    size: item.size,
+    unit: item.unit || "each",
+    quantity: item.quantity || 1,
+    purchasedAt: toDateInputValue(purchasedAt),
+    expiresAt: expiresAt ? toDateInputValue(expiresAt) : undefined,
+  };
+};
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * What putting bought items away does to the pantry. An item the user
+ * already has by that name gets its quantity topped up, once for all the
+ * items bought of it; anything else is added as a new pantry item.
+ */
+export const toPantryStock = (
+  items: ProductType[],
+  pantryItems: ProductType[],
+  purchasedAt: Date = new Date()
+): PantryStock[] => {
+  const restocks = new Map<
+    string,
+    { productIds: string[]; pantryItemId: string; quantity: number }
+  >();
+  const added: PantryStock[] = [];
+
+  for (const item of items) {
+    const existing = pantryItems.find((entry) =>
+      sameName(entry.name, item.name)
+    );
+    if (!existing) {
+      added.push({
+        productIds: [item.id],
+        item: toPantryItem(item, purchasedAt),
+      });
+      continue;
+    }
+
+    const restock = restocks.get(existing.id) ?? {
+      productIds: [],
+      pantryItemId: existing.id,
+      quantity: existing.quantity ?? 1,
+    };
+    restocks.set(existing.id, {
+      productIds: [...restock.productIds, item.id],
+      pantryItemId: existing.id,
+      quantity: restock.quantity + (item.quantity || 1),
+    });
+  }
+
+  return [...Array.from(restocks.values()), ...added];
+};
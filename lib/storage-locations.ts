@@ -0,0 +1,81 @@
+// Where pantry stock is kept and how full each place is. Capacity is a
+// rough count of items, measured against the quantities stored there.
+
+import type { ProductType, StorageLocation } from "@/lib/types";
+
+// Offered when the user has no storage locations yet
+export const SUGGESTED_STORAGE_LOCATIONS = [
+  "Fridge",
+  "Freezer",
+  "Pantry shelf",
+  "Garage",
+];
+
+export type StorageGroup = {
+  // Null for items not put anywhere yet
+  location: StorageLocation | null;
+  items: ProductType[];
+};
+
+/**
+ * Items kept in a location, counting each by its quantity
+ */
+export const getUsedCapacity = (
+  location: StorageLocation,
+  items: ProductType[]
+): number =>
+  items
+    .filter((item) => item.storageLocationId === location.id)
+    .reduce((sum, item) => sum + (item.quantity ?? 1), 0);
+
+/**
+ * Room left in a location, or null when it has no capacity set. Negative
+ * when it's already over.
+ */
+export const getSpaceLeft = (
+  location: StorageLocation,
+  items: ProductType[]
+): number | null =>
+  location.capacity === null
+    ? null
+    : location.capacity - getUsedCapacity(location, items);
+
+/**
+ * Items grouped by location, in the user's order, with unassigned items
+ * last. Empty locations are kept so items can be moved into them.
+ */
+export const groupByStorageLocation = (
+  items: ProductType[],
+  locations: StorageLocation[]
+): StorageGroup[] => {
+  const known = new Set(locations.map((location) => location.id));
+  const unassigned = items.filter(
+    (item) => !item.storageLocationId || !known.has(item.storageLocationId)
+  );
+
+  const groups: StorageGroup[] = locations.map((location) => ({
+    location,
+    items: items.filter((item) => item.storageLocationId === location.id),
+  }));
+  if (unassigned.length > 0) {
+    groups.push({ location: null, items: unassigned });
+  }
+  return groups;
+};
+
+/**
+ * Where an item of this name is already kept, which is where more of it
+ * would likely go
+ */
+export const findStorageLocationFor = (
+  name: string,
+  items: ProductType[],
+  locations: StorageLocation[]
+): StorageLocation | null => {
+  const normalized = name.trim().toLowerCase();
+  const locationId = items.find(
+    (item) =>
+      item.storageLocationId && item.name.trim().toLowerCase() === normalized
+  )?.storageLocationId;
+  return locations.find((location) => location.id === locationId) ?? null;
+};
@@ -0,0 +1,172 @@
+// Parses the free-text opening hours stores come with ("7:00 AM – 10:00 PM",
+// "Open 24 hours", "Closed") and works out whether a store is open.
+
+import { getHoursForDay } from "@/lib/stores";
+import type { StoreType } from "@/lib/types";
+
+// Minutes after midnight. `closes` is past 24 * 60 when the store closes
+// after midnight.
+export type OpeningPeriod = {
+  opens: number;
+  closes: number;
+};
+
+export type OpenStatus = {
+  isOpen: boolean;
+  // When the store next closes (if open) or opens (if closed). Null when
+  // that isn't within the week of hours we know.
+  changesAt: Date | null;
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TIME_PATTERN =
+  /^(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$|^(noon|midnight)$/;
+
+type ParsedTime = {
+  minutes: number;
+  hasMeridiem: boolean;
+};
+
+const parseTime = (text: string): ParsedTime | null => {
+  const match = text.trim().toLowerCase().match(TIME_PATTERN);
+  if (!match) return null;
+
+  if (match[4] === "noon") return { minutes: 12 * 60, hasMeridiem: true };
+  if (match[4] === "midnight") return { minutes: 0, hasMeridiem: true };
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0];
+  if (minutes > 59 || hours > 24 || (meridiem && hours > 12)) return null;
+
+  if (meridiem === "a" && hours === 12) hours = 0;
+  if (meridiem === "p" && hours !== 12) hours += 12;
+
+  return { minutes: (hours % 24) * 60 + minutes, hasMeridiem: !!meridiem };
+};
+
+/**
+ * Opening periods in an hours string, in the order given. Returns an empty
+ * array for a closed day and null when the string can't be understood.
+ * Periods are separated by commas, ranges by a hyphen, en dash or "to".
+ */
+export const parseHours = (text: string): OpeningPeriod[] | null => {
+  const normalized = text.trim().toLowerCase();
+  if (!normalized) return null;
+  if (normalized === "closed") return [];
+  if (/^(open )?24 hours$|^24\/7$/.test(normalized)) {
+    return [{ opens: 0, closes: MINUTES_PER_DAY }];
+  }
+
+  const periods: OpeningPeriod[] = [];
+  for (const part of normalized.split(/,|;/)) {
+    const [start, end, ...rest] = part.split(/\s*(?:-|–|—|\bto\b)\s*/);
+    if (!start || !end || rest.length > 0) return null;
+
+    const opens = parseTime(start);
+    const closes = parseTime(end);
+    if (!opens || !closes) return null;
+
+    // "9 – 11:30 AM" gives AM/PM only once; read the opening time in the
+    // closing time's half of the day unless that puts it after closing
+    if (!opens.hasMeridiem && closes.hasMeridiem && closes.minutes >= 12 * 60) {
+      const afternoon = opens.minutes + 12 * 60;
+      if (afternoon < closes.minutes) opens.minutes = afternoon;
+    }
+
+    periods.push({
+      opens: opens.minutes,
+      closes:
+        closes.minutes <= opens.minutes
+          ? closes.minutes + MINUTES_PER_DAY
+          : closes.minutes,
+    });
+  }
+  return periods;
+};
+
+const startOfDay = (date: Date, dayOffset = 0) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + dayOffset);
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
+
+/**
+ * Whether the store is open at the given time and when that changes. Returns
+ * null when the store hasn't listed readable hours for the days around it.
+ */
+export const getOpenStatus = (
+  store: StoreType,
+  at: Date = new Date()
+): OpenStatus | null => {
+  // Yesterday's late hours can run into today; the rest of the week is for
+  // finding the next opening time
+  const intervals: { start: Date; end: Date }[] = [];
+  let knownDays = 0;
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = startOfDay(at, offset);
+    const hours = getHoursForDay(store, day);
+    const periods = hours === null ? null : parseHours(hours);
+    if (!periods) continue;
+
+    knownDays++;
+    periods.forEach(({ opens, closes }) =>
+      intervals.push({
+        start: addMinutes(day, opens),
+        end: addMinutes(day, closes),
+      })
+    );
+  }
+  if (knownDays === 0) return null;
+
+  // Back-to-back periods, like two "Open 24 hours" days, are one stretch
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: { start: Date; end: Date }[] = [];
+  intervals.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+
+  const current = merged.find(({ start, end }) => start <= at && at < end);
+  if (current) return { isOpen: true, changesAt: current.end };
+
+  const next = merged.find(({ start }) => start > at);
+  return { isOpen: false, changesAt: next?.start ?? null };
+};
+
+/**
+ * Whether the store is open at the given time. Stores without readable
+ * hours count as open, so missing data never hides a store.
+ */
+export const isOpenAt = (store: StoreType, at: Date): boolean =>
+  getOpenStatus(store, at)?.isOpen ?? true;
+
+/**
+ * Short label for a status, e.g. "Open now · closes 9 PM" or
+ * "Closed · opens Tue 7 AM"
+ */
+export const describeOpenStatus = (
+  status: OpenStatus,
+  now: Date = new Date()
+): string => {
+  const { isOpen, changesAt } = status;
+  if (!changesAt) return isOpen ? "Open 24 hours" : "Closed";
+  if (isOpen && changesAt.getTime() - now.getTime() >= 24 * 60 * 60 * 1000) {
+    return "Open 24 hours";
+  }
+
+  const time = changesAt
+    .toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })
+    .replace(":00", "");
+  const isToday = startOfDay(changesAt).getTime() === startOfDay(now).getTime();
+  const when = isToday
+    ? time
+    : `${changesAt.toLocaleDateString("en-US", { weekday: "short" })} ${time}`;
+
+  return isOpen ? `Open now · closes ${when}` : `Closed · opens ${when}`;
+};
@@ -0,0 +1,126 @@
+// Helpers for nearby stores and the prices seen at them
+
+import { getCentroid, type LatLng } from "@/lib/geo";
+import type { PriceInfo, ProductType, StoreType } from "@/lib/types";
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Whether a price's store name refers to this store. Prices name either the
+ * store itself or just its chain.
+ */
+export const isPriceFromStore = (
+  store: StoreType,
+  price: PriceInfo | null
+): boolean => {
+  if (!price?.store) return false;
+  const name = price.store.trim().toLowerCase();
+  return (
+    name === store.name.trim().toLowerCase() ||
+    (!!store.chainName && name === store.chainName.trim().toLowerCase())
+  );
+};
+
+/**
+ * The product's price at this store: its per-store price when the backend
+ * sent one, otherwise its lowest price if that was seen here. Null when the
+ * price at this store isn't known.
+ */
+export const getPriceAtStore = (
+  store: StoreType,
+  item: ProductType
+): number | null => {
+  const storePrice = item.storePrices?.find((price) =>
+    isPriceFromStore(store, price)
+  );
+  if (storePrice) return storePrice.price;
+  return isPriceFromStore(store, item.lowestPrice)
+    ? (item.lowestPrice?.price ?? null)
+    : null;
+};
+
+/**
+ * The product as if only these stores existed: its per-store prices are
+ * narrowed to them and lowestPrice becomes the cheapest of those, or null
+ * when none of them carry it. Prices that don't name a store are kept, since
+ * there's no telling where they came from.
+ */
+export const limitToStores = (
+  item: ProductType,
+  stores: StoreType[]
+): ProductType => {
+  if (item.lowestPrice && !item.lowestPrice.store) return item;
+
+  const isAtStores = (price: PriceInfo) =>
+    stores.some((store) => isPriceFromStore(store, price));
+  const storePrices = item.storePrices?.filter(isAtStores);
+  const candidates = [
+    ...(storePrices ?? []),
+    ...(item.lowestPrice && isAtStores(item.lowestPrice)
+      ? [item.lowestPrice]
+      : []),
+  ];
+
+  return {
+    ...item,
+    storePrices,
+    lowestPrice: candidates.reduce<PriceInfo | null>(
+      (lowest, price) =>
+        !lowest || price.price < lowest.price ? price : lowest,
+      null
+    ),
+  };
+};
+
+/**
+ * Items from the list whose lowest known price is at this store, cheapest
+ * first
+ */
+export const getCheapestItemsAtStore = (
+  store: StoreType,
+  items: ProductType[]
+): ProductType[] =>
+  items
+    .filter((item) => isPriceFromStore(store, item.lowestPrice))
+    .sort((a, b) => (a.lowestPrice?.price ?? 0) - (b.lowestPrice?.price ?? 0));
+
+/**
+ * The hours string for a day, matching day names case-insensitively. Returns
+ * null when the store didn't list that day.
+ */
+export const getHoursForDay = (store: StoreType, date: Date = new Date()) => {
+  const day = WEEKDAYS[date.getDay()];
+  const entry = Object.entries(store.hours).find(
+    ([key]) => key.trim().toLowerCase() === day
+  );
+  return entry ? entry[1] : null;
+};
+
+/**
+ * Coordinates as a LatLng (which Google Maps also accepts). Stores use
+ * GeoJSON order, which is [longitude, latitude].
+ */
+export const getStorePosition = (store: StoreType): LatLng => ({
+  lat: store.location.coordinates[1],
+  lng: store.location.coordinates[0],
+});
+
+/**
+ * Best guess at the centre of a ZIP code without a geocoder: the middle of
+ * the stores in that ZIP code, or of all stores if none match
+ */
+export const estimateZipCenter = (
+  stores: StoreType[],
+  zipCode: string
+): LatLng | null => {
+  const inZip = stores.filter((store) => store.address.zipCode === zipCode);
+  return getCentroid((inZip.length > 0 ? inZip : stores).map(getStorePosition));
+};
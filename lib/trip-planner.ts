@@ -0,0 +1,251 @@
+// Picks which stores to visit for a shopping list. Every combination of
+// stores up to the user's cap is scored by what the items cost there plus a
+// charge for each extra stop and each mile driven, and the cheapest wins.
+
+import { distanceInMiles, type LatLng } from "@/lib/geo";
+import { getPriceAtStore, getStorePosition } from "@/lib/stores";
+import type { ProductType, StoreType } from "@/lib/types";
+
+export type TripPlanOptions = {
+  maxStores: number;
+  // What one more stop is worth to the user, in dollars
+  costPerExtraStop: number;
+  // Driving cost, in dollars per mile
+  costPerMile: number;
+  // Where the trip starts and ends; without one distance is ignored
+  origin: LatLng | null;
+};
+
+export type TripItem = {
+  item: ProductType;
+  quantity: number;
+  price: number;
+};
+
+export type TripStop = {
+  store: StoreType;
+  items: TripItem[];
+  subtotal: number;
+};
+
+export type SingleStoreBasket = {
+  store: StoreType;
+  total: number;
+  // Items this store has no price for, counted at their highest known price
+  missingItems: number;
+};
+
+export type TripPlan = {
+  // In driving order
+  stops: TripStop[];
+  // Priced items none of the chosen stores carry, and items with no price
+  // anywhere; both are left out of the totals
+  unassignedItems: ProductType[];
+  itemsTotal: number;
+  distanceMiles: number | null;
+  bestSingleStore: SingleStoreBasket | null;
+  // Compared with buying the same items at bestSingleStore
+  savings: number;
+};
+
+// Combinations grow quickly, so only the stores that carry the most list
+// items are considered
+const MAX_CANDIDATE_STORES = 10;
+
+const itemQuantity = (item: ProductType) => item.quantity || 1;
+
+/**
+ * All subsets of `items` with between 1 and `maxSize` members
+ */
+const combinations = <T>(items: T[], maxSize: number): T[][] => {
+  const result: T[][] = [];
+  const build = (start: number, current: T[]) => {
+    if (current.length > 0) result.push(current);
+    if (current.length === maxSize) return;
+    for (let i = start; i < items.length; i++) {
+      build(i + 1, [...current, items[i]]);
+    }
+  };
+  build(0, []);
+  return result;
+};
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) =>
+        permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(
+          (rest) => [item, ...rest]
+        )
+      );
+
+/**
+ * Shortest round trip from the origin through every store, with the stores
+ * in visiting order. Brute force is fine for the handful of stops allowed.
+ */
+const shortestRoute = (stores: StoreType[], origin: LatLng) => {
+  let best = { order: stores, miles: Infinity };
+
+  permutations(stores).forEach((order) => {
+    const points = [origin, ...order.map(getStorePosition), origin];
+    let miles = 0;
+    for (let i = 1; i < points.length; i++) {
+      miles += distanceInMiles(points[i - 1], points[i]);
+    }
+    if (miles < best.miles) best = { order, miles };
+  });
+
+  return best;
+};
+
+/**
+ * Plan which stores to visit for the list. Returns null when no list item
+ * has a price at any of the stores.
+ */
+export const planTrip = (
+  items: ProductType[],
+  stores: StoreType[],
+  options: TripPlanOptions
+): TripPlan | null => {
+  // Price of every item at every store that carries it
+  const prices = new Map<string, Map<string, number>>();
+  stores.forEach((store) => {
+    const storePrices = new Map<string, number>();
+    items.forEach((item) => {
+      const price = getPriceAtStore(store, item);
+      if (price !== null) storePrices.set(item.id, price);
+    });
+    if (storePrices.size > 0) prices.set(store._id, storePrices);
+  });
+
+  const pricedItems = items.filter((item) =>
+    Array.from(prices.values()).some((storePrices) => storePrices.has(item.id))
+  );
+  if (pricedItems.length === 0) return null;
+
+  // Stand-in price for an item a store doesn't carry, so a store with
+  // fewer items doesn't look cheaper just for that
+  const fallbackPrice = new Map(
+    pricedItems.map((item) => [
+      item.id,
+      Math.max(
+        item.priceRange?.max ?? 0,
+        ...Array.from(prices.values()).map(
+          (storePrices) => storePrices.get(item.id) ?? 0
+        )
+      ),
+    ])
+  );
+
+  const candidates = stores
+    .filter((store) => prices.has(store._id))
+    .sort(
+      (a, b) => (prices.get(b._id)?.size ?? 0) - (prices.get(a._id)?.size ?? 0)
+    )
+    .slice(0, MAX_CANDIDATE_STORES);
+
+  const basketCost = (chosen: StoreType[]) => {
+    const assignments = new Map<string, TripItem[]>();
+    const missing: ProductType[] = [];
+    let itemsTotal = 0;
+    let penalty = 0;
+
+    pricedItems.forEach((item) => {
+      let cheapest: { store: StoreType; price: number } | null = null;
+      for (const store of chosen) {
+        const price = prices.get(store._id)?.get(item.id);
+        if (price !== undefined && (!cheapest || price < cheapest.price)) {
+          cheapest = { store, price };
+        }
+      }
+
+      const quantity = itemQuantity(item);
+      if (!cheapest) {
+        missing.push(item);
+        penalty += (fallbackPrice.get(item.id) ?? 0) * quantity;
+        return;
+      }
+
+      const { store, price } = cheapest;
+      itemsTotal += price * quantity;
+      assignments.set(store._id, [
+        ...(assignments.get(store._id) ?? []),
+        { item, quantity, price },
+      ]);
+    });
+
+    return { assignments, missing, itemsTotal, penalty };
+  };
+
+  let best: {
+    score: number;
+    stores: StoreType[];
+    miles: number | null;
+    basket: ReturnType<typeof basketCost>;
+  } | null = null;
+
+  for (const chosen of combinations(
+    candidates,
+    Math.max(1, options.maxStores)
+  )) {
+    const basket = basketCost(chosen);
+    // A store that ends up with nothing to buy is a wasted stop
+    if (basket.assignments.size < chosen.length) continue;
+
+    const route = options.origin
+      ? shortestRoute(chosen, options.origin)
+      : { order: chosen, miles: null };
+
+    const score =
+      basket.itemsTotal +
+      basket.penalty +
+      (chosen.length - 1) * options.costPerExtraStop +
+      (route.miles ?? 0) * options.costPerMile;
+
+    if (!best || score < best.score) {
+      best = { score, stores: route.order, miles: route.miles, basket };
+    }
+  }
+
+  if (!best) return null;
+  const { stores: route, miles, basket } = best;
+
+  const singleStores = candidates.map((store) => {
+    const single = basketCost([store]);
+    return {
+      store,
+      total: single.itemsTotal + single.penalty,
+      missingItems: single.missing.length,
+    };
+  });
+  const bestSingleStore =
+    singleStores.sort((a, b) => a.total - b.total)[0] ?? null;
+
+  // The single store comparison counts missing items at their fallback
+  // price, so do the same for this plan
+  const planTotal = basket.itemsTotal + basket.penalty;
+
+  return {
+    stops: route.map((store) => {
+      const stopItems = basket.assignments.get(store._id) ?? [];
+      return {
+        store,
+        items: stopItems,
+        subtotal: stopItems.reduce(
+          (sum, { price, quantity }) => sum + price * quantity,
+          0
+        ),
+      };
+    }),
+    unassignedItems: [
+      ...basket.missing,
+      ...items.filter((item) => !pricedItems.includes(item)),
+    ],
+    itemsTotal: basket.itemsTotal,
+    distanceMiles: miles,
+    bestSingleStore,
+    savings: bestSingleStore
+      ? Math.max(0, bestSingleStore.total - planTotal)
+      : 0,
+  };
+};
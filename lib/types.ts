@@ -0,0 +1,301 @@
+// Shared types for data returned by the backend API
+
+export type UserType = {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  email: string;
+  zipCode: string;
+  shoppingStyle: string;
+};
+
+// A named place the user shops near ("Home", "Office"). The ZIP code on the
+// profile is always available as well, so the list may be empty.
+export type SavedLocation = {
+  id: string;
+  name: string;
+  zipCode: string;
+};
+
+// A place pantry stock is kept ("Fridge", "Garage shelf")
+export type StorageLocation = {
+  id: string;
+  name: string;
+  // Roughly how many items fit; null when the user didn't say
+  capacity: number | null;
+};
+
+// Fields the user can change from the settings drawer
+export type ProfileUpdate = Pick<UserType, "zipCode" | "shoppingStyle">;
+
+export type StoreType = {
+  _id: string;
+  name: string;
+  address: {
+    formattedAddress: string;
+    zipCode: string;
+    country: string;
+  };
+  location: {
+    type: string;
+    coordinates: number[];
+  };
+  hours: {
+    [key: string]: string;
+  };
+  chainName: string;
+  storeType: string;
+  phone: string;
+  website?: string;
+  rating: number;
+  priceLevel?: number;
+};
+
+export type PriceInfo = {
+  price: number;
+  // Empty when the backend didn't say which store the price came from
+  store: string;
+};
+
+export type PriceRange = {
+  min: number;
+  max: number;
+  period: string;
+};
+
+export type ProductType = {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  type: string;
+  size: string;
+  unit: string;
+  imageUrl: string;
+  // null when there is no recent price observation for this product
+  lowestPrice: PriceInfo | null;
+  priceRange: PriceRange | null;
+  isBuyRecommended: boolean;
+  buyRecommendationReason: string;
+  isHealthy: boolean;
+  isValuePick: boolean;
+  isBulkOption: boolean;
+  // Latest observed price at each store that carries the product, when the
+  // backend sends them. lowestPrice is the cheapest of these.
+  storePrices?: PriceInfo[];
+  // Set on My List entries only
+  quantity?: number;
+  notes?: string;
+  // Name of the store the user wants to buy this at, if any
+  preferredStore?: string;
+  addedAt?: string;
+  // Set on pantry entries only, as YYYY-MM-DD
+  purchasedAt?: string;
+  expiresAt?: string;
+  // Pantry entries only; unset when the item hasn't been put anywhere
+  storageLocationId?: string;
+};
+
+// Fields the user can change on a My List entry
+export type ListItemUpdate = Partial<
+  Pick<ProductType, "quantity" | "notes" | "preferredStore">
+>;
+
+// One product's prices side by side across a set of stores
+export type StorePriceComparison = {
+  item: ProductType;
+  // Keyed by store _id; null where that store has no price for the item
+  prices: Record<string, number | null>;
+  // The lowest of those prices, null when no store has one
+  lowestPrice: number | null;
+};
+
+export type NewsItemType = {
+  id: string;
+  title: string;
+  url?: string;
+  summary: string;
+  category: string;
+  impactLevel: string;
+  publishedAt: string;
+};
+
+export type DashboardDataType = {
+  stores: StoreType[];
+  pantryItems: ProductType[];
+  produceItems: ProductType[];
+  buyAlerts: ProductType[];
+  newsHighlights: NewsItemType[];
+};
+
+export type PricePoint = {
+  date: string;
+  price: number;
+  storeName?: string;
+};
+
+export type PriceHistory = {
+  weekly: PricePoint[];
+  monthly: PricePoint[];
+  threeMonth: PricePoint[];
+};
+
+export type PriceChange = {
+  weekly: number;
+  monthly: number;
+  threeMonth: number;
+};
+
+export type PriceTrendType = {
+  id: string;
+  name: string;
+  // Prices are null when there is no recent observation
+  currentPrice: number | null;
+  priceHistory: PriceHistory;
+  priceChange: PriceChange;
+  lowestPrice: number | null;
+  highestPrice: number | null;
+  storeName: string;
+  seasonalLow?: boolean;
+  buyRecommendation?: boolean;
+  buyRecommendationReason?: string;
+};
+
+export type PantryItemWithTrends = {
+  id: string;
+  name: string;
+  quantity: number;
+  monthlyUsage: number;
+  addedAt: string;
+  currentPrice: number | null;
+  priceHistory: PriceHistory;
+  priceChange: PriceChange;
+  lowestPrice: number | null;
+  highestPrice: number | null;
+  storeName: string;
+};
+
+export type NewPantryItem = {
+  name: string;
+  category: string;
+  type: string;
+  size: string;
+  unit: string;
+  quantity: number;
+  // YYYY-MM-DD; left out when unknown
+  purchasedAt?: string;
+  expiresAt?: string;
+  storageLocationId?: string;
+};
+
+// Fields of a pantry item that can be changed after it's added. Null clears
+// a date, or takes the item out of the storage location it's in.
+export type PantryItemUpdate = Partial<
+  Omit<NewPantryItem, "purchasedAt" | "expiresAt" | "storageLocationId">
+> & {
+  purchasedAt?: string | null;
+  expiresAt?: string | null;
+  storageLocationId?: string | null;
+};
+
+// A monthly grocery budget, split into envelopes by pantry category
+export type Budget = {
+  monthlyLimit: number;
+  // Dollars per pantry category. Categories without an envelope still count
+  // toward the monthly limit.
+  envelopes: Record<string, number>;
+};
+
+// Something the user actually bought, with what they paid for it
+export type Purchase = {
+  id: string;
+  // The product it was bought as, when it came from My List
+  productId?: string;
+  itemName: string;
+  store: string;
+  // Per unit
+  price: number;
+  quantity: number;
+  purchasedAt: string;
+};
+
+export type NewPurchase = Omit<Purchase, "id">;
+
+export type CalculationHistory = {
+  id: string;
+  itemName: string;
+  pricePerUnit: number;
+  bulkQuantity: number;
+  bulkPrice: number;
+  monthlyUsage: number;
+  recommendedQuantity: number;
+  savingsPercentage: number;
+  savingsAmount: number;
+  timeframe: number;
+  createdAt: string;
+  message: string;
+};
+
+export type BulkBuyCalculationInput = {
+  itemName: string;
+  pricePerUnit: number;
+  unit: string;
+  monthlyUsage: number;
+  timeframe: number;
+  bulkQuantity: number;
+  bulkPrice: number;
+};
+
+export type Ingredient = {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  currentPrice: number;
+  previousPrice: number | null;
+};
+
+export type NewIngredient = Omit<
+  Ingredient,
+  "id" | "currentPrice" | "previousPrice"
+>;
+
+export type Recipe = {
+  id: string;
+  name: string;
+  ingredients: Ingredient[];
+  totalCurrentPrice: number;
+  totalPreviousPrice: number | null;
+  priceChange: number | null;
+  lastUpdated: string;
+};
+
+export type RegisterInput = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  zipCode: string;
+  shoppingStyle: string;
+  phoneNumber?: string;
+};
+
+export type AuthResponse = {
+  token: string;
+  // Optional: without one, an expired session means signing in again
+  refreshToken?: string;
+  user: UserType;
+};
+
+export type RegisterResponse = {
+  token?: string;
+  user: UserType;
+  verificationCode?: string;
+};
+
+export type DataFetchStatus = {
+  status: "pending" | "completed" | "failed" | string;
+  progress?: number;
+  message?: string;
+};
@@ -0,0 +1,23 @@
+// Form validation rules shared by sign up, settings and saved locations
+
+import type { ProfileUpdate } from "@/lib/types";
+
+/**
+ * Check a ZIP code (12345 or 12345-6789), returning a message or null
+ */
+export const validateZipCode = (zipCode: string) => {
+  if (!zipCode.trim()) return "ZIP code is required";
+  if (!/^\d{5}(-\d{4})?$/.test(zipCode)) return "Invalid ZIP code format";
+  return null;
+};
+
+/**
+ * Check the ZIP code and shopping style. Returns the first problem as a
+ * message for the user, or null when both are valid.
+ */
+export const validateProfile = ({ zipCode, shoppingStyle }: ProfileUpdate) => {
+  const zipError = validateZipCode(zipCode);
+  if (zipError) return zipError;
+  if (!shoppingStyle) return "Please select your shopping style";
+  return null;
+};
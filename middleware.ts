@@ -0,0 +1,34 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/lib/session-cookie";
+
+// Routes that need a signed-in user; add new authenticated sections here
+const PROTECTED_ROUTES = ["/dashboard"];
+
+// Routes that only make sense when signed out
+const AUTH_ROUTES = ["/login", "/signup"];
+
+const matchesRoute = (pathname: string, routes: string[]) =>
+  routes.some(
+    (route) => pathname === route || pathname.startsWith(`${route}/`)
+  );
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const hasSession = !!request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (!hasSession && matchesRoute(pathname, PROTECTED_ROUTES)) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("redirect", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (hasSession && matchesRoute(pathname, AUTH_ROUTES)) {
+    return NextResponse.redirect(new URL("/dashboard", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*", "/login", "/signup"],
+};